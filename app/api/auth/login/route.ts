@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AUTH_COOKIE_NAME,
+  AUTH_COOKIE_MAX_AGE_S,
+  createAuthCookieValue,
+  getAuthMode,
+  getLoginIdentity,
+} from '@/lib/apiAuth';
+import { getClientIp } from '@/lib/apiGuard';
+import { loginRateLimiter } from '@/lib/rateLimit';
+
+const LOGIN_FORM = `<!doctype html>
+<html>
+  <head><meta charset="utf-8"><title>Sign in</title></head>
+  <body style="font-family: sans-serif; max-width: 320px; margin: 80px auto">
+    <form method="post">
+      <label>Login token<br><input type="password" name="token" autofocus required style="width: 100%"></label>
+      <p><button type="submit">Sign in</button></p>
+    </form>
+  </body>
+</html>`;
+
+function isCookieMode(): boolean {
+  return getAuthMode() === 'cookie';
+}
+
+/**
+ * GET /api/auth/login
+ * Cookie auth mode: a sign-in form that POSTs the token (never put it in a URL)
+ */
+export async function GET() {
+  if (!isCookieMode()) {
+    return NextResponse.json({ error: 'Cookie auth is not enabled' }, { status: 404 });
+  }
+  return new Response(LOGIN_FORM, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+/**
+ * POST /api/auth/login with `token` as a form field or JSON
+ * Exchange the shared login token for a signed session cookie. Form posts are
+ * redirected to the app; JSON callers get `{ ok: true }`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isCookieMode()) {
+      return NextResponse.json({ error: 'Cookie auth is not enabled' }, { status: 404 });
+    }
+
+    // Login CSRF: only accept posts from our own pages (or non-browser clients)
+    const origin = request.headers.get('origin');
+    if (origin && origin !== request.nextUrl.origin) {
+      return NextResponse.json({ error: 'Cross-origin login rejected' }, { status: 403 });
+    }
+
+    // Every attempt costs a token. Without a known address all attempts share
+    // one bucket: slowing guessing matters more here than availability.
+    const key = `login:${getClientIp(request) ?? 'unknown'}`;
+    const { allowed, retryAfterMs } = loginRateLimiter.take(key);
+    if (!allowed) {
+      console.warn(`🚦 Rate limited ${key}`);
+      return NextResponse.json(
+        { error: 'Too many login attempts, try again shortly', retryAfterMs },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } }
+      );
+    }
+
+    const isForm = (request.headers.get('content-type') ?? '').includes('form');
+    const body = isForm
+      ? Object.fromEntries(await request.formData())
+      : await request.json().catch(() => ({}));
+    const token = typeof body?.token === 'string' ? body.token : '';
+    const identity = token ? getLoginIdentity(token) : null;
+
+    if (!identity) {
+      return NextResponse.json({ error: 'Invalid login token' }, { status: 401 });
+    }
+
+    const response = isForm
+      ? NextResponse.redirect(new URL('/', request.url), 303)
+      : NextResponse.json({ ok: true });
+    response.cookies.set(AUTH_COOKIE_NAME, createAuthCookieValue(identity), {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/',
+      maxAge: AUTH_COOKIE_MAX_AGE_S,
+    });
+    return response;
+  } catch (error) {
+    console.error('Login error:', error);
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+  }
+}
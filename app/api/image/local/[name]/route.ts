@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiGuard } from '@/lib/apiGuard';
+import { readLocalImage } from '@/lib/imageProviders';
+
+/**
+ * GET /api/image/local/<file name>
+ * Serve an image from the local provider's folder (IMAGE_LOCAL_DIR)
+ */
+async function serveLocalImage(request: NextRequest) {
+  let fileName: string;
+  try {
+    fileName = decodeURIComponent(request.nextUrl.pathname.split('/').pop() ?? '');
+  } catch {
+    // Malformed escapes (e.g. a stray %) can't name a file
+    return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+  }
+  const image = await readLocalImage(fileName);
+
+  if (!image) {
+    return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+  }
+
+  return new Response(image.bytes, {
+    headers: {
+      'Content-Type': image.contentType,
+      'Cache-Control': 'private, max-age=3600',
+    },
+  });
+}
+
+export const GET = withApiGuard(serveLocalImage);
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiGuard } from '@/lib/apiGuard';
+import { ALLOWED_IMAGE_HOSTS } from '@/lib/imageProviders';
+
+// Larger images are rejected rather than buffered into memory
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Read a body up to maxBytes, cancelling the download once it grows past that.
+// Returns null when the limit is exceeded.
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer | null> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks, size);
+}
+
+/**
+ * GET /api/image?url=...
+ * Fetch a displayed photo server-side and return it as a base64 data URL,
+ * so the client can draw it to a canvas without CORS tainting
+ */
+async function proxyImage(request: NextRequest) {
+  const imageUrl = request.nextUrl.searchParams.get('url');
+
+  if (!imageUrl) {
+    return NextResponse.json({ error: 'Missing url parameter' }, { status: 400 });
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(imageUrl);
+  } catch {
+    return NextResponse.json({ error: 'Invalid url parameter' }, { status: 400 });
+  }
+
+  // Only proxy images from hosts the app actually displays (avoids an open proxy)
+  if (parsed.protocol !== 'https:' || !ALLOWED_IMAGE_HOSTS.includes(parsed.hostname)) {
+    return NextResponse.json({ error: 'Image host not allowed' }, { status: 403 });
+  }
+
+  try {
+    const response = await fetch(parsed, { cache: 'no-store' });
+
+    if (!response.ok) {
+      console.error('Image fetch failed:', response.status, imageUrl);
+      return NextResponse.json(
+        { error: `Image fetch failed: ${response.status}` },
+        { status: 502 }
+      );
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.startsWith('image/')) {
+      return NextResponse.json({ error: 'URL is not an image' }, { status: 415 });
+    }
+
+    // Reject early when the size is declared, and cap the stream when it isn't
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (declaredLength > MAX_IMAGE_BYTES) {
+      await response.body?.cancel();
+      return NextResponse.json({ error: 'Image too large' }, { status: 413 });
+    }
+
+    const bytes = await readLimited(response, MAX_IMAGE_BYTES);
+    if (!bytes) {
+      return NextResponse.json({ error: 'Image too large' }, { status: 413 });
+    }
+
+    return NextResponse.json({
+      dataUrl: `data:${contentType};base64,${bytes.toString('base64')}`,
+    });
+  } catch (error) {
+    console.error('Error proxying image:', error);
+    return NextResponse.json({ error: 'Failed to fetch image' }, { status: 500 });
+  }
+}
+
+export const GET = withApiGuard(proxyImage);
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { REALTIME_MODEL, type ClientSecret } from '@/lib/realtimeConnection';
+import type { SessionConfig } from '@/lib/realtimeEvents';
+import { withApiGuard } from '@/lib/apiGuard';
+import { sessionRateLimiter } from '@/lib/rateLimit';
+
+// Session fields the browser may choose; everything else is fixed by the server
+const CLIENT_SESSION_FIELDS = [
+  'modalities',
+  'instructions',
+  'voice',
+  'input_audio_format',
+  'output_audio_format',
+  'input_audio_transcription',
+  'turn_detection',
+  'tools',
+  'tool_choice',
+  'temperature',
+  'max_response_output_tokens',
+] as const;
+
+/** Pull `client_secret` out of an OpenAI session response, or null if it isn't there */
+function parseClientSecret(text: string): { value: string; expires_at: number } | null {
+  try {
+    const secret = JSON.parse(text)?.client_secret;
+    if (typeof secret?.value === 'string' && typeof secret.expires_at === 'number') {
+      return { value: secret.value, expires_at: secret.expires_at };
+    }
+  } catch {
+    // Not JSON - fall through
+  }
+  return null;
+}
+
+/**
+ * POST /api/realtime/client-secret
+ * Mint a short-lived client secret for a direct browser-to-OpenAI connection,
+ * with the session config (model, voice, instructions, tools) baked in.
+ * Body: { session?: SessionConfig }
+ * Returns { value, expiresAt } - the long-lived API key never leaves the server
+ */
+async function createClientSecret(request: NextRequest) {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    console.error('OPENAI_API_KEY not configured');
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+  }
+
+  let requested: SessionConfig = {};
+  try {
+    const body = await request.json();
+    requested = body?.session ?? {};
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const session: SessionConfig = { model: REALTIME_MODEL };
+  for (const field of CLIENT_SESSION_FIELDS) {
+    if (requested[field] !== undefined) {
+      Object.assign(session, { [field]: requested[field] });
+    }
+  }
+
+  try {
+    const response = await fetch('https://api.openai.com/v1/realtime/sessions', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(session),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('OpenAI client secret error:', response.status, errorText);
+      return NextResponse.json(
+        { error: `OpenAI API error: ${response.status}` },
+        { status: 502 }
+      );
+    }
+
+    // Check the shape before trusting it; a changed response is OpenAI's failure, not ours
+    const responseText = await response.text();
+    const clientSecret = parseClientSecret(responseText);
+    if (!clientSecret) {
+      console.error('Unexpected OpenAI client secret response:', responseText);
+      return NextResponse.json(
+        { error: `Unexpected OpenAI response: ${responseText.slice(0, 500)}` },
+        { status: 502 }
+      );
+    }
+
+    const secret: ClientSecret = {
+      value: clientSecret.value,
+      expiresAt: clientSecret.expires_at * 1000, // OpenAI returns seconds
+    };
+
+    return NextResponse.json(secret, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('Client secret creation error:', error);
+    return NextResponse.json({ error: 'Failed to create client secret' }, { status: 500 });
+  }
+}
+
+export const POST = withApiGuard(createClientSecret, { rateLimiter: sessionRateLimiter });
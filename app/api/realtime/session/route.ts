@@ -1,30 +1,33 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { REALTIME_URL } from '@/lib/realtimeConnection';
+import { withApiGuard } from '@/lib/apiGuard';
+import { sessionRateLimiter } from '@/lib/rateLimit';
 
 /**
  * POST /api/realtime/session
  * Exchange SDP offer with OpenAI Realtime API
- * Returns SDP answer for WebRTC connection
+ * Returns SDP answer for WebRTC connection. Errors are JSON `{ error }`; OpenAI
+ * failures become 502 so the client doesn't read them as our auth or rate limits.
  */
-export async function POST(request: NextRequest) {
+async function createSession(request: NextRequest) {
   try {
     const offerSDP = await request.text();
 
     if (!offerSDP) {
-      return new Response('Missing SDP offer', { status: 400 });
+      return NextResponse.json({ error: 'Missing SDP offer' }, { status: 400 });
     }
 
     const apiKey = process.env.OPENAI_API_KEY;
     if (!apiKey) {
       console.error('OPENAI_API_KEY not configured');
-      return new Response('Server configuration error', { status: 500 });
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
     }
 
     console.log('Received SDP offer length:', offerSDP.length);
     console.log('SDP offer preview:', offerSDP.substring(0, 200));
 
     // Exchange SDP with OpenAI Realtime API
-    // Try the versioned model instead of the alias
-    const response = await fetch('https://api.openai.com/v1/realtime?model=gpt-realtime', {
+    const response = await fetch(REALTIME_URL, {
       method: 'POST',
       headers: {
         Authorization: `Bearer ${apiKey}`,
@@ -38,9 +41,10 @@ export async function POST(request: NextRequest) {
       console.error('OpenAI API error:', errorText);
       console.error('Status:', response.status);
       console.error('Headers:', Object.fromEntries(response.headers.entries()));
-      return new Response(`OpenAI API error: ${response.status} - ${errorText}`, {
-        status: response.status,
-      });
+      return NextResponse.json(
+        { error: `OpenAI API error: ${response.status} - ${errorText}` },
+        { status: 502 }
+      );
     }
 
     const answerSDP = await response.text();
@@ -52,6 +56,8 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error('Session creation error:', error);
-    return new Response('Failed to create session', { status: 500 });
+    return NextResponse.json({ error: 'Failed to create session' }, { status: 500 });
   }
 }
+
+export const POST = withApiGuard(createSession, { rateLimiter: sessionRateLimiter });
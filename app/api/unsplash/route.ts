@@ -1,77 +1,52 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiGuard } from '@/lib/apiGuard';
+import {
+  getFallbackProviderName,
+  getImageProvider,
+  getImageProviderName,
+  parsePhotoFilters,
+  type ImageProviderName,
+} from '@/lib/imageProviders';
+import type { PhotoFilters } from '@/lib/photos';
 
-export async function GET() {
-  const accessKey = process.env.UNSPLASH_ACCESS_KEY;
-
-  // If no API key, use Unsplash Source (no auth required)
-  if (!accessKey) {
-    console.log('No Unsplash API key, using Unsplash Source');
-    
-    const width = 1920;
-    const height = 1080;
-    const randomSeed = Math.floor(Math.random() * 10000);
-    
-    return NextResponse.json({
-      url: `https://source.unsplash.com/random/${width}x${height}?sig=${randomSeed}`,
-      photographer: 'Unsplash Contributors',
-      photographerUrl: 'https://unsplash.com',
-      photoUrl: 'https://unsplash.com',
-      description: 'Random photo from Unsplash',
-    });
+/**
+ * GET /api/unsplash?provider=unsplash|local|picsum|manifest
+ *   &query=...&topic=...&collection=...&orientation=...&color=...
+ * Random photo from the selected provider (see lib/imageProviders.ts). Remote
+ * providers fall back to the local folder, so the app keeps working offline;
+ * the unconfigured local default falls back to Picsum.
+ */
+async function getRandomPhoto(request: NextRequest) {
+  const requested = request.nextUrl.searchParams.get('provider');
+  let providerName: ImageProviderName;
+  let filters: PhotoFilters;
+  try {
+    providerName = getImageProviderName(requested);
+    filters = parsePhotoFilters(request.nextUrl.searchParams);
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
   }
 
+  const fallbackName = getFallbackProviderName(providerName, requested);
   try {
-    const randomSeed = Math.random().toString(36).substring(7);
-    const response = await fetch(
-      `https://api.unsplash.com/photos/random?orientation=landscape&sig=${randomSeed}`,
-      {
-        headers: {
-          Authorization: `Client-ID ${accessKey}`,
-        },
-        cache: 'no-store', // Disable Next.js cache
-      }
-    );
-
-    if (!response.ok) {
-      console.warn(`Unsplash API error ${response.status}, falling back to Unsplash Source`);
-      
-      // Fallback to Unsplash Source
-      const width = 1920;
-      const height = 1080;
-      const randomSeed = Math.floor(Math.random() * 10000);
-      
-      return NextResponse.json({
-        url: `https://source.unsplash.com/random/${width}x${height}?sig=${randomSeed}`,
-        photographer: 'Unsplash Contributors',
-        photographerUrl: 'https://unsplash.com',
-        photoUrl: 'https://unsplash.com',
-        description: 'Random photo from Unsplash',
-      });
+    return NextResponse.json(await getImageProvider(providerName).getRandomPhoto(filters));
+  } catch (error) {
+    if (!fallbackName) {
+      console.error(`Error loading ${providerName} photo:`, error);
+      return NextResponse.json({ error: (error as Error).message }, { status: 503 });
     }
+    console.warn(`${providerName} image provider failed, falling back to ${fallbackName}:`, error);
+  }
 
-    const data = await response.json();
-
-    return NextResponse.json({
-      url: data.urls.regular,
-      photographer: data.user.name,
-      photographerUrl: data.user.links.html,
-      photoUrl: data.links.html,
-      description: data.description || data.alt_description || 'Unsplash photo',
-    });
+  try {
+    return NextResponse.json(await getImageProvider(fallbackName).getRandomPhoto(filters));
   } catch (error) {
-    console.error('Error fetching Unsplash photo:', error);
-    
-    // Final fallback
-    const width = 1920;
-    const height = 1080;
-    const randomSeed = Math.floor(Math.random() * 10000);
-    
-    return NextResponse.json({
-      url: `https://source.unsplash.com/random/${width}x${height}?sig=${randomSeed}`,
-      photographer: 'Unsplash Contributors',
-      photographerUrl: 'https://unsplash.com',
-      photoUrl: 'https://unsplash.com',
-      description: 'Random photo from Unsplash',
-    });
+    console.error(`Error loading ${fallbackName} photo:`, error);
+    return NextResponse.json(
+      { error: `${providerName} image provider failed, ${fallbackName} fallback: ${(error as Error).message}` },
+      { status: 503 }
+    );
   }
 }
+
+export const GET = withApiGuard(getRandomPhoto);
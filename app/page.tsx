@@ -1,24 +1,51 @@
 'use client';
 
 import { Box, Container, Grid } from '@mui/material';
-import { ImagePane } from '@/components/ImagePane';
-import { ControlPane } from '@/components/ControlPane';
+import { ImagePane, type ImageChangeOptions, type ImagePaneRef } from '@/components/ImagePane';
+import { ControlPane, type ControlPaneRef } from '@/components/ControlPane';
 import { useState, useCallback, useRef } from 'react';
+import type { PhotoFilters, UnsplashPhoto } from '@/lib/photos';
 
 export default function Home() {
   const [isScreenSharing, setIsScreenSharing] = useState(false);
-  const controlPaneRef = useRef<{ captureAndSend: () => Promise<void> }>(null);
+  const [autoDescribe, setAutoDescribe] = useState(false);
+  const controlPaneRef = useRef<ControlPaneRef>(null);
+  const imagePaneRef = useRef<ImagePaneRef>(null);
+
+  // Used by the assistant's refresh_image and get_photo_metadata tools
+  const handleRefreshImage = useCallback(async (filters?: PhotoFilters) => {
+    return (await imagePaneRef.current?.refresh(filters, { fromTool: true })) ?? null;
+  }, []);
+
+  const getCurrentPhoto = useCallback(() => imagePaneRef.current?.getPhoto() ?? null, []);
+
+  // Send the displayed photo directly (no screen capture needed)
+  const handleDescribePhoto = useCallback(async (photo: UnsplashPhoto, prompt?: string) => {
+    await controlPaneRef.current?.sendPhoto(photo, prompt);
+  }, []);
+
+  // Send the previous and current photos as one comparison turn
+  const handleComparePhotos = useCallback(async (previous: UnsplashPhoto, current: UnsplashPhoto) => {
+    await controlPaneRef.current?.comparePhotos(previous, current);
+  }, []);
 
   // Called when ImagePane's image changes
-  const handleImageChange = useCallback(async () => {
-    if (isScreenSharing && controlPaneRef.current) {
+  const handleImageChange = useCallback(async (photo: UnsplashPhoto, { fromTool }: ImageChangeOptions) => {
+    // The tool result already prompts a response - a second one would compete with it
+    if (fromTool) {
+      return;
+    }
+    if (autoDescribe) {
+      console.log('Image changed - sending photo directly');
+      await handleDescribePhoto(photo);
+    } else if (isScreenSharing && controlPaneRef.current) {
       console.log('Image changed while screen sharing - waiting for render...');
       // Wait for the new image to fully render before capturing
       await new Promise(resolve => setTimeout(resolve, 1000));
       console.log('Auto-capturing screenshot...');
       await controlPaneRef.current.captureAndSend();
     }
-  }, [isScreenSharing]);
+  }, [autoDescribe, isScreenSharing, handleDescribePhoto]);
 
   return (
     <Box
@@ -32,7 +59,14 @@ export default function Home() {
         <Grid container sx={{ flex: 1 }} spacing={0}>
           {/* Left Pane - Image Display */}
           <Grid size={{ xs: 12, md: 8 }}>
-            <ImagePane onImageChange={handleImageChange} />
+            <ImagePane
+              ref={imagePaneRef}
+              onImageChange={handleImageChange}
+              onDescribePhoto={handleDescribePhoto}
+              onComparePhotos={handleComparePhotos}
+              autoDescribe={autoDescribe}
+              onAutoDescribeChange={setAutoDescribe}
+            />
           </Grid>
 
           {/* Right Pane - Controls */}
@@ -41,6 +75,8 @@ export default function Home() {
               ref={controlPaneRef}
               isScreenSharing={isScreenSharing}
               onScreenShareToggle={setIsScreenSharing}
+              onRefreshImage={handleRefreshImage}
+              getCurrentPhoto={getCurrentPhoto}
             />
           </Grid>
         </Grid>
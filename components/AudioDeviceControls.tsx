@@ -0,0 +1,114 @@
+'use client';
+
+import { Box, Stack, Typography, LinearProgress, TextField, MenuItem } from '@mui/material';
+import MicIcon from '@mui/icons-material/Mic';
+import VolumeUpIcon from '@mui/icons-material/VolumeUp';
+import type { ReactNode } from 'react';
+import type { AudioDeviceSelection } from '@/lib/audioDevices';
+import { useAudioLevels } from '@/hooks/useAudioLevels';
+import type { UseRealtimeResult } from '@/hooks/useRealtime';
+
+interface AudioDeviceControlsProps {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+  selection: AudioDeviceSelection;
+  onInputChange: (deviceId: string | null) => void;
+  onOutputChange: (deviceId: string | null) => void;
+  canSelectOutput: boolean;
+  getMediaStreams: UseRealtimeResult['getMediaStreams'];
+  isMetering: boolean; // Connected or mic open
+}
+
+const DEFAULT_DEVICE = 'default';
+
+function DevicePicker({
+  label,
+  devices,
+  value,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  devices: MediaDeviceInfo[];
+  value: string | null;
+  onChange: (deviceId: string | null) => void;
+  disabled?: boolean;
+}) {
+  // A saved device that is unplugged falls back to the default entry
+  const selected = devices.some((d) => d.deviceId === value) ? value! : DEFAULT_DEVICE;
+
+  return (
+    <TextField
+      select
+      size="small"
+      fullWidth
+      label={label}
+      value={selected}
+      onChange={(e) => onChange(e.target.value === DEFAULT_DEVICE ? null : e.target.value)}
+      disabled={disabled}
+    >
+      <MenuItem value={DEFAULT_DEVICE}>System default</MenuItem>
+      {devices.map((device, index) => (
+        <MenuItem key={device.deviceId} value={device.deviceId}>
+          {device.label || `${label} ${index + 1}`}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+}
+
+function LevelMeter({ icon, level, label }: { icon: ReactNode; level: number; label: string }) {
+  return (
+    <Stack direction="row" spacing={1} alignItems="center" aria-label={label}>
+      {icon}
+      <LinearProgress
+        variant="determinate"
+        value={level * 100}
+        color={level > 0.9 ? 'warning' : 'success'}
+        sx={{ flex: 1, height: 6, borderRadius: 3, '& .MuiLinearProgress-bar': { transition: 'none' } }}
+      />
+    </Stack>
+  );
+}
+
+export function AudioDeviceControls({
+  inputs,
+  outputs,
+  selection,
+  onInputChange,
+  onOutputChange,
+  canSelectOutput,
+  getMediaStreams,
+  isMetering,
+}: AudioDeviceControlsProps) {
+  // Metered here so the ~15 updates a second only re-render these controls
+  const levels = useAudioLevels(getMediaStreams, isMetering);
+
+  return (
+    <Box>
+      <Stack spacing={1.5}>
+        <DevicePicker label="Microphone" devices={inputs} value={selection.inputId} onChange={onInputChange} />
+        <LevelMeter icon={<MicIcon fontSize="small" color="action" />} level={levels.input} label="Input level" />
+
+        <DevicePicker
+          label="Speaker"
+          devices={outputs}
+          value={selection.outputId}
+          onChange={onOutputChange}
+          disabled={!canSelectOutput}
+        />
+        <LevelMeter
+          icon={<VolumeUpIcon fontSize="small" color="action" />}
+          level={levels.output}
+          label="Output level"
+        />
+      </Stack>
+
+      {!canSelectOutput && (
+        <Typography variant="caption" display="block" color="text.secondary" sx={{ mt: 0.5 }}>
+          This browser can&apos;t choose an output device - the system default is used
+        </Typography>
+      )}
+    </Box>
+  );
+}
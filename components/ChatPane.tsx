@@ -0,0 +1,206 @@
+'use client';
+
+import { Box, Stack, Typography, Paper } from '@mui/material';
+import { useEffect, useReducer, useRef, useState } from 'react';
+import type { UseRealtimeResult } from '@/hooks/useRealtime';
+import type { ServerEvent, ServerEventOf } from '@/lib/realtimeEvents';
+import { COMPARISON_ITEM_METADATA } from '@/lib/imageComparison';
+import {
+  transcriptReducer,
+  initialTranscriptState,
+  TRANSCRIPT_EVENT_TYPES,
+  type TranscriptTurn,
+} from '@/lib/transcript';
+
+interface ChatPaneProps {
+  on: UseRealtimeResult['on'];
+  off: UseRealtimeResult['off'];
+  images?: Record<string, string[]>; // Image data URLs sent with each item, keyed by item ID
+  comparisons?: Record<string, string[]>; // Image labels of comparison turns, keyed by item ID
+}
+
+export function ChatPane({ on, off, images = {}, comparisons = {} }: ChatPaneProps) {
+  const [transcript, dispatch] = useReducer(
+    transcriptReducer,
+    initialTranscriptState
+  );
+  const [comparisonAnswers, setComparisonAnswers] = useState<Record<string, string>>({}); // Comparison item ID -> answer item ID
+  const comparisonResponsesRef = useRef(new Map<string, string>()); // Response ID -> comparison item ID
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Feed transcript-related events into the reducer
+  useEffect(() => {
+    const handleEvent = (data: ServerEvent) => dispatch(data);
+
+    TRANSCRIPT_EVENT_TYPES.forEach((type) => on(type, handleEvent));
+
+    return () => {
+      TRANSCRIPT_EVENT_TYPES.forEach((type) => off(type, handleEvent));
+    };
+  }, [on, off]);
+
+  // Pair each comparison with the response that was requested for it (tagged
+  // via metadata), wherever that answer lands in the conversation
+  useEffect(() => {
+    const responses = comparisonResponsesRef.current;
+    const handleCreated = (event: ServerEventOf<'response.created'>) => {
+      const comparisonId = event.response.metadata?.[COMPARISON_ITEM_METADATA];
+      if (comparisonId) {
+        responses.set(event.response.id, comparisonId);
+      }
+    };
+    const handleOutputItem = (event: ServerEventOf<'response.output_item.added'>) => {
+      const comparisonId = responses.get(event.response_id);
+      if (!comparisonId || event.item.type !== 'message' || !event.item.id) {
+        return;
+      }
+      responses.delete(event.response_id); // The first message is the answer
+      const answerId = event.item.id;
+      setComparisonAnswers((prev) => ({ ...prev, [comparisonId]: answerId }));
+    };
+
+    on('response.created', handleCreated);
+    on('response.output_item.added', handleOutputItem);
+    return () => {
+      off('response.created', handleCreated);
+      off('response.output_item.added', handleOutputItem);
+    };
+  }, [on, off]);
+
+  const answerIds = new Set(Object.values(comparisonAnswers));
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [transcript]);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: 0, flex: 1 }}>
+      <Typography variant="subtitle2" gutterBottom>
+        Transcript
+      </Typography>
+
+      <Box ref={scrollRef} sx={{ flex: 1, overflow: 'auto' }}>
+        <Stack spacing={1}>
+          {transcript.order.map((id) => {
+            const turn = transcript.turns[id];
+            const turnImages = images[id] ?? [];
+            const isUser = turn.role === 'user';
+
+            // A comparison shows its images side by side with its answer
+            if (comparisons[id]) {
+              return (
+                <ComparisonTurn
+                  key={id}
+                  images={turnImages}
+                  labels={comparisons[id]}
+                  answer={transcript.turns[comparisonAnswers[id]] ?? null}
+                />
+              );
+            }
+            if (answerIds.has(id)) {
+              return null;
+            }
+
+            return (
+              <Paper
+                key={id}
+                sx={{
+                  p: 1.5,
+                  maxWidth: '85%',
+                  alignSelf: isUser ? 'flex-end' : 'flex-start',
+                  bgcolor: isUser ? 'primary.dark' : 'background.paper',
+                  opacity: turn.isFinal ? 1 : 0.7,
+                }}
+              >
+                <Typography variant="caption" color="text.secondary" component="div">
+                  {isUser ? 'You' : 'Assistant'}
+                  {!turn.isFinal && ' …'}
+                </Typography>
+
+                {turnImages.length > 0 && (
+                  <Stack direction="row" spacing={0.5} sx={{ my: 0.5 }}>
+                    {turnImages.map((image, index) => (
+                      <Box
+                        key={index}
+                        component="img"
+                        src={image}
+                        alt="Image sent to the assistant"
+                        sx={{
+                          display: 'block',
+                          flex: 1,
+                          minWidth: 0,
+                          maxHeight: 120,
+                          objectFit: 'cover',
+                          borderRadius: 1,
+                        }}
+                      />
+                    ))}
+                  </Stack>
+                )}
+
+                {turn.text && (
+                  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                    {turn.text}
+                  </Typography>
+                )}
+              </Paper>
+            );
+          })}
+
+          {transcript.order.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              Start talking or share your screen...
+            </Typography>
+          )}
+        </Stack>
+      </Box>
+    </Box>
+  );
+}
+
+function ComparisonTurn({
+  images,
+  labels,
+  answer,
+}: {
+  images: string[];
+  labels: string[];
+  answer: TranscriptTurn | null;
+}) {
+  return (
+    <Paper variant="outlined" sx={{ p: 1.5 }}>
+      <Typography variant="caption" color="text.secondary" component="div">
+        Comparison
+      </Typography>
+
+      <Stack direction="row" spacing={1} sx={{ my: 0.5 }}>
+        {images.map((image, index) => (
+          <Box key={index} sx={{ flex: 1, minWidth: 0 }}>
+            <Box
+              component="img"
+              src={image}
+              alt={labels[index] ?? 'Compared image'}
+              sx={{ display: 'block', width: '100%', maxHeight: 180, objectFit: 'cover', borderRadius: 1 }}
+            />
+            <Typography variant="caption" color="text.secondary">
+              {labels[index]}
+            </Typography>
+          </Box>
+        ))}
+      </Stack>
+
+      <Typography variant="caption" color="text.secondary" component="div">
+        Assistant
+        {(!answer || !answer.isFinal) && ' …'}
+      </Typography>
+      {answer?.text && (
+        <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', opacity: answer.isFinal ? 1 : 0.7 }}>
+          {answer.text}
+        </Typography>
+      )}
+    </Paper>
+  );
+}
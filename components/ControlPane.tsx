@@ -9,14 +9,67 @@ import {
   Paper,
   Alert,
   Snackbar,
+  ToggleButton,
+  ToggleButtonGroup,
+  Button,
 } from '@mui/material';
 import MicIcon from '@mui/icons-material/Mic';
 import MicOffIcon from '@mui/icons-material/MicOff';
 import ScreenShareIcon from '@mui/icons-material/ScreenShare';
 import StopScreenShareIcon from '@mui/icons-material/StopScreenShare';
+import SettingsIcon from '@mui/icons-material/Settings';
+import CropIcon from '@mui/icons-material/Crop';
+import CompareIcon from '@mui/icons-material/Compare';
 import { useRealtime } from '@/hooks/useRealtime';
-import { useEffect, useState, forwardRef, useImperativeHandle } from 'react';
-import { captureScreenshot, optimizeImage } from '@/lib/screenshot';
+import { useRealtimeTools } from '@/hooks/useRealtimeTools';
+import { useSessionRecorder } from '@/hooks/useSessionRecorder';
+import { useSessionSettings } from '@/hooks/useSessionSettings';
+import { useImageInput } from '@/hooks/useImageInput';
+import { useAudioDevices } from '@/hooks/useAudioDevices';
+import { usePromptTemplates } from '@/hooks/usePromptTemplates';
+import {
+  useScreenAnalysis,
+  DEFAULT_SCREEN_ANALYSIS_CONFIG,
+  type ScreenAnalysisConfig,
+} from '@/hooks/useScreenAnalysis';
+import { useEffect, useMemo, useRef, useState, forwardRef, useImperativeHandle } from 'react';
+import {
+  captureScreenshot,
+  captureFromStream,
+  optimizeImage,
+  readFileAsDataUrl,
+  type CropRegion,
+} from '@/lib/screenshot';
+import { createItemId, textFromItem } from '@/lib/transcript';
+import { setPhotoDescription } from '@/lib/photoHistory';
+import { getSelectedTemplate, renderPromptTemplate } from '@/lib/promptTemplates';
+import {
+  COMPARISON_ITEM_METADATA,
+  buildComparisonContent,
+  createComparisonImages,
+  type ComparisonImage,
+} from '@/lib/imageComparison';
+import {
+  fetchPhotoAsDataUrl,
+  describePhotoMetadata,
+  type PhotoFilters,
+  type UnsplashPhoto,
+} from '@/lib/photos';
+import type { ServerEvent, ServerEventOf, ServerEventType } from '@/lib/realtimeEvents';
+import { ChatPane } from '@/components/ChatPane';
+import { SessionSettingsDrawer } from '@/components/SessionSettingsDrawer';
+import { ScreenAnalysisControls } from '@/components/ScreenAnalysisControls';
+import { UsageMeter } from '@/components/UsageMeter';
+import { RecorderControls } from '@/components/RecorderControls';
+import { ReplayControls } from '@/components/ReplayControls';
+import { CropSelector } from '@/components/CropSelector';
+import { AudioDeviceControls } from '@/components/AudioDeviceControls';
+import { PromptTemplatePicker } from '@/components/PromptTemplatePicker';
+import { ImageTray, type PendingImage } from '@/components/ImageTray';
+import { buildSessionConfig, type TurnDetectionMode } from '@/lib/sessionSettings';
+import { withTools } from '@/lib/tools';
+import { createAppTools } from '@/lib/appTools';
+import { DEFAULT_USAGE_BUDGET, type UsageBudget } from '@/lib/usage';
 
 interface Event {
   type: string;
@@ -27,32 +80,110 @@ interface Event {
 interface ControlPaneProps {
   isScreenSharing: boolean;
   onScreenShareToggle: (value: boolean) => void;
+  onRefreshImage?: (filters?: PhotoFilters) => Promise<UnsplashPhoto | null>;
+  getCurrentPhoto?: () => UnsplashPhoto | null;
 }
 
 export interface ControlPaneRef {
   captureAndSend: () => Promise<void>;
+  sendPhoto: (photo: UnsplashPhoto, prompt?: string) => Promise<void>;
+  comparePhotos: (previous: UnsplashPhoto, current: UnsplashPhoto) => Promise<void>;
 }
 
 export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
-  ({ isScreenSharing, onScreenShareToggle }, ref) => {
+  ({ isScreenSharing, onScreenShareToggle, onRefreshImage, getCurrentPhoto }, ref) => {
+  const [sessionSettings, setSessionSettings] = useSessionSettings();
+
+  // Tool handlers need the latest screen state, which is only known further down
+  const captureForToolRef = useRef<() => Promise<void>>(async () => {});
+  const describingPhotoRef = useRef<{ url: string; prompt: string } | null>(null);
+  const tools = useMemo(
+    () =>
+      createAppTools({
+        refreshImage: async (filters) => (onRefreshImage ? onRefreshImage(filters) : null),
+        captureScreen: () => captureForToolRef.current(),
+        getPhoto: () => getCurrentPhoto?.() ?? null,
+      }),
+    [onRefreshImage, getCurrentPhoto]
+  );
+  const sessionConfig = useMemo(
+    () => withTools(buildSessionConfig(sessionSettings), tools),
+    [sessionSettings, tools]
+  );
+  const [budget, setBudget] = useState<UsageBudget>(DEFAULT_USAGE_BUDGET);
+  const audioDevices = useAudioDevices();
+  const [promptSettings, savePromptSettings] = usePromptTemplates();
+
   const {
     isConnected,
     connectionState,
+    reconnectAttempt,
+    lastDisconnectReason,
+    accessError,
+    reconnect,
+    sessionStatus,
     isMicActive,
     startMic,
     stopMic,
+    startPushToTalk,
+    endPushToTalk,
+    isTalking,
+    talkStartedAt,
     enableAudio,
     cancelResponse,
+    isResponding,
+    usage,
+    budgetStatus,
+    resetUsage,
     send,
     on,
     off,
-  } = useRealtime();
+    onAny,
+    offAny,
+    getMediaStreams,
+    connectionMode,
+    replayLog,
+    stopReplay,
+    isReplaying,
+  } = useRealtime({
+    replayContext: true,
+    sessionConfig,
+    budget,
+    inputDeviceId: audioDevices.selection.inputId,
+    outputDeviceId: audioDevices.selection.outputId,
+  });
+
+  useRealtimeTools({ tools, on, off, send });
+
+  const recorder = useSessionRecorder({ onAny, offAny, getMediaStreams, isMicActive, isConnected });
 
   const [events, setEvents] = useState<Event[]>([]);
   const [isCapturing, setIsCapturing] = useState(false);
   const [notification, setNotification] = useState<string | null>(null);
   const [lastError, setLastError] = useState<string | null>(null);
   const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const [sentImages, setSentImages] = useState<Record<string, string[]>>({});
+  const [comparisonLabels, setComparisonLabels] = useState<Record<string, string[]>>({});
+  const [lastCapture, setLastCapture] = useState<string | null>(null); // For "compare with last capture"
+  const [pendingImages, setPendingImages] = useState<PendingImage[]>([]);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  const [heldMs, setHeldMs] = useState(0);
+  const [cropRegion, setCropRegion] = useState<CropRegion | null>(null);
+  const [cropPreview, setCropPreview] = useState<string | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisConfig, setAnalysisConfig] = useState<ScreenAnalysisConfig>(
+    DEFAULT_SCREEN_ANALYSIS_CONFIG
+  );
+
+  // Push-to-talk is the "no turn detection" session mode
+  const isPushToTalk = sessionSettings.turnDetection === 'none';
+  const lastVadModeRef = useRef<TurnDetectionMode>(
+    isPushToTalk ? 'server_vad' : sessionSettings.turnDetection
+  );
+
+  // Automatic reconnects have given up - offer a manual retry
+  const canRetry = !isConnected && reconnectAttempt === 0 && !!lastDisconnectReason;
 
   // Handle microphone toggle
   const handleMicToggle = async () => {
@@ -68,46 +199,168 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
     }
   };
 
-  // Capture screenshot from existing stream or create new one
-  const captureFromStream = async (stream: MediaStream): Promise<string> => {
-    const video = document.createElement('video');
-    video.srcObject = stream;
-    video.muted = true;
-
-    return new Promise((resolve, reject) => {
-      video.onloadedmetadata = () => {
-        video.play();
-
-        requestAnimationFrame(() => {
-          try {
-            const canvas = document.createElement('canvas');
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
-
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-              throw new Error('Failed to get canvas context');
-            }
-
-            ctx.drawImage(video, 0, 0);
-            video.remove();
-
-            const dataUrl = canvas.toDataURL('image/png', 0.8);
-            resolve(dataUrl);
-          } catch (error) {
-            video.remove();
-            reject(error);
-          }
-        });
-      };
+  // Switch between toggle (VAD) and push-to-talk mic modes
+  const handleMicModeChange = (mode: 'toggle' | 'push-to-talk') => {
+    if (isMicActive) {
+      stopMic();
+    }
+
+    if (mode === 'push-to-talk') {
+      lastVadModeRef.current = sessionSettings.turnDetection;
+      setSessionSettings({ ...sessionSettings, turnDetection: 'none' });
+    } else {
+      setSessionSettings({ ...sessionSettings, turnDetection: lastVadModeRef.current });
+    }
+  };
+
+  const handleTalkStart = async () => {
+    setHeldMs(0);
+    try {
+      await startPushToTalk();
+    } catch (error) {
+      console.error('Microphone access failed:', error);
+      setNotification('Microphone access denied');
+    }
+  };
+
+  // Show how much audio has been buffered while the button is held
+  useEffect(() => {
+    if (talkStartedAt === null) {
+      return;
+    }
+    const timer = setInterval(() => setHeldMs(Date.now() - talkStartedAt), 100);
+    return () => clearInterval(timer);
+  }, [talkStartedAt]);
+
+  // Hold Space to talk (ignored while typing in a field)
+  useEffect(() => {
+    if (!isPushToTalk || !isConnected) {
+      return;
+    }
+
+    const isTypingTarget = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || isTypingTarget(e.target)) {
+        return;
+      }
+      e.preventDefault();
+      setHeldMs(0);
+      startPushToTalk().catch((error) => {
+        console.error('Microphone access failed:', error);
+        setNotification('Microphone access denied');
+      });
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) {
+        return;
+      }
+      e.preventDefault();
+      endPushToTalk();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [isPushToTalk, isConnected, startPushToTalk, endPushToTalk]);
+
+  // Send images with a prompt (and optional extra context) as one user turn
+  // and request a spoken response (unless the model is mid-response, e.g. a tool call)
+  const sendImageTurn = (
+    images: string[],
+    prompt: string,
+    context?: string,
+    requestResponse = true
+  ) => {
+    // Use our own item ID so the transcript can show the thumbnails
+    const itemId = createItemId('img');
+    setSentImages((prev) => ({ ...prev, [itemId]: images }));
+
+    // Send to OpenAI via conversation.item.create
+    send({
+      type: 'conversation.item.create',
+      item: {
+        id: itemId,
+        type: 'message',
+        role: 'user',
+        content: [
+          {
+            type: 'input_text',
+            text: prompt,
+          },
+          ...(context ? [{ type: 'input_text' as const, text: context }] : []),
+          ...images.map((image) => ({
+            type: 'input_image' as const,
+            image_url: image,
+          })),
+        ],
+      },
+    });
+
+    if (requestResponse) {
+      requestImageResponse();
+    }
+  };
 
-      video.onerror = (error) => {
-        video.remove();
-        reject(error);
-      };
+  // Request response with audio. Metadata comes back on response.created/done,
+  // which is how an answer is matched to what it was asked about.
+  const requestImageResponse = (metadata: Record<string, string> = {}) => {
+    send({
+      type: 'response.create',
+      response: {
+        modalities: ['text', 'audio'],
+        metadata: { ...metadata, kind: 'image' }, // Attributes usage to image analysis
+      },
     });
   };
 
+  // Send two labeled images in one user turn and ask what changed
+  const sendComparisonTurn = (images: ComparisonImage[]) => {
+    const itemId = createItemId('cmp');
+    setSentImages((prev) => ({ ...prev, [itemId]: images.map((image) => image.dataUrl) }));
+    setComparisonLabels((prev) => ({ ...prev, [itemId]: images.map((image) => image.label) }));
+
+    send({
+      type: 'conversation.item.create',
+      item: {
+        id: itemId,
+        type: 'message',
+        role: 'user',
+        content: buildComparisonContent(images),
+      },
+    });
+    requestImageResponse({ [COMPARISON_ITEM_METADATA]: itemId });
+  };
+
+  // Frames from continuous analysis only arrive when the scene changed
+  const handleAnalysisFrame = async (frame: string) => {
+    try {
+      const optimizedImage = await optimizeImage(frame);
+      sendImageTurn(
+        [optimizedImage],
+        'This is the latest view of my shared screen. Briefly narrate what is shown, focusing on what changed since the previous image.'
+      );
+    } catch (error) {
+      console.error('Failed to send analysis frame:', error);
+    }
+  };
+
+  const { lastDifference, sentInLastMinute } = useScreenAnalysis({
+    stream: screenStream,
+    enabled: isAnalyzing && isConnected,
+    paused: isResponding || isCapturing,
+    region: cropRegion,
+    config: analysisConfig,
+    onFrame: handleAnalysisFrame,
+  });
+
   // Capture and send screenshot (exposed via ref and used internally)
   const captureAndSend = async (streamToUse?: MediaStream) => {
     if (!isConnected) {
@@ -133,8 +386,8 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
       const stream = streamToUse || screenStream;
       
       if (stream) {
-        // Reuse existing stream (no permission prompt)
-        screenshot = await captureFromStream(stream);
+        // Reuse existing stream (no permission prompt), cropped to the region of interest
+        screenshot = await captureFromStream(stream, cropRegion);
       } else {
         // First time - request permission
         screenshot = await captureScreenshot();
@@ -142,33 +395,13 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
       
       // Optimize image size
       const optimizedImage = await optimizeImage(screenshot);
+      setLastCapture(optimizedImage);
 
-      // Send to OpenAI via conversation.item.create
-      send({
-        type: 'conversation.item.create',
-        item: {
-          type: 'message',
-          role: 'user',
-          content: [
-            {
-              type: 'input_text',
-              text: 'Describe only the main image in this screenshot. Ignore any UI elements, buttons, or interface components. Focus solely on the photograph or visual content being displayed.',
-            },
-            {
-              type: 'input_image',
-              image_url: optimizedImage,
-            },
-          ],
-        },
-      });
-
-      // Request response with audio
-      send({
-        type: 'response.create',
-        response: {
-          modalities: ['text', 'audio'],
-        },
-      });
+      sendImageTurn(
+        [optimizedImage],
+        renderPromptTemplate(getSelectedTemplate(promptSettings).text, getCurrentPhoto?.() ?? null),
+        'This is a screenshot. Only consider the main image in it - ignore any UI elements, buttons, or interface components.'
+      );
 
       setNotification('Screenshot sent! AI is analyzing...');
     } catch (error) {
@@ -181,6 +414,187 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
     }
   };
 
+  // Capture the screen again and compare it with the previous capture
+  const compareWithLastCapture = async () => {
+    if (!isConnected || !screenStream || !lastCapture) {
+      return;
+    }
+
+    setIsCapturing(true);
+
+    try {
+      try {
+        await enableAudio();
+      } catch (err) {
+        console.warn('Could not enable audio playback yet:', err);
+      }
+
+      cancelResponse();
+
+      const optimizedImage = await optimizeImage(await captureFromStream(screenStream, cropRegion));
+      sendComparisonTurn(
+        createComparisonImages({ dataUrl: lastCapture }, { dataUrl: optimizedImage })
+      );
+      setLastCapture(optimizedImage);
+
+      setNotification('Captures sent! AI is comparing...');
+    } catch (error) {
+      console.error('Comparison capture failed:', error);
+      setNotification(error instanceof Error ? error.message : 'Comparison capture failed');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  // capture_screen tool: add the current screen to the conversation without
+  // interrupting the response that asked for it
+  const captureForTool = async () => {
+    if (!screenStream) {
+      throw new Error('Screen sharing is off - ask the user to share their screen first');
+    }
+    const screenshot = await captureFromStream(screenStream, cropRegion);
+    const optimizedImage = await optimizeImage(screenshot);
+    sendImageTurn([optimizedImage], 'Here is my shared screen, captured at your request.', undefined, false);
+  };
+
+  useEffect(() => {
+    captureForToolRef.current = captureForTool;
+  });
+
+  // Open the crop selector on a fresh, uncropped frame
+  const handleOpenCropSelector = async () => {
+    if (!screenStream) {
+      return;
+    }
+    try {
+      setCropPreview(await captureFromStream(screenStream));
+    } catch (error) {
+      console.error('Failed to capture crop preview:', error);
+      setNotification('Could not capture a preview frame');
+    }
+  };
+
+  // Send the displayed photo itself (fetched via our server to avoid CORS)
+  const sendPhoto = async (
+    photo: UnsplashPhoto,
+    prompt = renderPromptTemplate(getSelectedTemplate(promptSettings).text, photo)
+  ) => {
+    if (!isConnected) {
+      setNotification('Not connected to OpenAI');
+      return;
+    }
+
+    setIsCapturing(true);
+
+    try {
+      try {
+        await enableAudio();
+      } catch (err) {
+        console.warn('Could not enable audio playback yet:', err);
+      }
+
+      cancelResponse();
+
+      const photoDataUrl = await fetchPhotoAsDataUrl(photo);
+      const optimizedImage = await optimizeImage(photoDataUrl);
+
+      // The response tagged with this URL is the answer to keep in the photo history
+      describingPhotoRef.current = { url: photo.url, prompt };
+      sendImageTurn([optimizedImage], prompt, describePhotoMetadata(photo), false);
+      requestImageResponse({ photo_url: photo.url });
+
+      setNotification('Photo sent! AI is analyzing...');
+    } catch (error) {
+      console.error('Sending photo failed:', error);
+      setNotification(error instanceof Error ? error.message : 'Sending photo failed');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  // Compare two photos from the image pane (e.g. the previous one in its history)
+  const comparePhotos = async (previous: UnsplashPhoto, current: UnsplashPhoto) => {
+    if (!isConnected) {
+      setNotification('Not connected to OpenAI');
+      return;
+    }
+
+    setIsCapturing(true);
+
+    try {
+      try {
+        await enableAudio();
+      } catch (err) {
+        console.warn('Could not enable audio playback yet:', err);
+      }
+
+      cancelResponse();
+
+      const [previousImage, currentImage] = await Promise.all(
+        [previous, current].map(async (photo) => optimizeImage(await fetchPhotoAsDataUrl(photo)))
+      );
+      sendComparisonTurn(
+        createComparisonImages(
+          { dataUrl: previousImage, details: describePhotoMetadata(previous) },
+          { dataUrl: currentImage, details: describePhotoMetadata(current) }
+        )
+      );
+
+      setNotification('Photos sent! AI is comparing...');
+    } catch (error) {
+      console.error('Comparing photos failed:', error);
+      setNotification(error instanceof Error ? error.message : 'Comparing photos failed');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  // Queue dropped, pasted or picked images in the tray
+  const handleAddFiles = async (files: File[]) => {
+    try {
+      const added = await Promise.all(
+        files.map(async (file) => ({
+          id: createItemId('file'),
+          dataUrl: await optimizeImage(await readFileAsDataUrl(file)),
+          name: file.name || 'Pasted image',
+        }))
+      );
+      setPendingImages((prev) => [...prev, ...added]);
+    } catch (error) {
+      console.error('Failed to read image files:', error);
+      setNotification('Could not read image');
+    }
+  };
+
+  const isDraggingFiles = useImageInput(handleAddFiles);
+
+  // Send everything in the tray as one turn
+  const sendPendingImages = async () => {
+    if (!isConnected) {
+      setNotification('Not connected to OpenAI');
+      return;
+    }
+    if (pendingImages.length === 0) {
+      return;
+    }
+
+    try {
+      await enableAudio();
+    } catch (err) {
+      console.warn('Could not enable audio playback yet:', err);
+    }
+
+    cancelResponse();
+    sendImageTurn(
+      pendingImages.map((image) => image.dataUrl),
+      pendingImages.length > 1
+        ? `Describe these ${pendingImages.length} images.`
+        : 'Describe this image.'
+    );
+    setPendingImages([]);
+    setNotification('Images sent! AI is analyzing...');
+  };
+
   // Handle screen share toggle
   const handleScreenShareToggle = async () => {
     if (isScreenSharing) {
@@ -189,6 +603,7 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
         screenStream.getTracks().forEach(track => track.stop());
         setScreenStream(null);
       }
+      setCropRegion(null); // A new share may show a different window
       onScreenShareToggle(false);
       setNotification('Screen sharing stopped');
     } else {
@@ -211,6 +626,7 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
         // Listen for when user stops sharing via browser UI
         stream.getVideoTracks()[0].onended = () => {
           setScreenStream(null);
+          setCropRegion(null);
           onScreenShareToggle(false);
           setNotification('Screen sharing stopped');
         };
@@ -221,36 +637,49 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
     }
   };
 
-  // Expose captureAndSend to parent via ref
+  // Expose image sending to parent via ref
   useImperativeHandle(ref, () => ({
     captureAndSend,
+    sendPhoto,
+    comparePhotos,
   }));
 
+  // Save the assistant's answer about a sent photo to its history entry,
+  // matched by the photo_url metadata sendPhoto put on the response
+  useEffect(() => {
+    const handleResponseDone = (event: ServerEventOf<'response.done'>) => {
+      const pending = describingPhotoRef.current;
+      if (!pending || event.response.metadata?.photo_url !== pending.url) {
+        return;
+      }
+      describingPhotoRef.current = null;
+      const answer = event.response.output.map(textFromItem).filter(Boolean).join(' ');
+      if (answer && event.response.status === 'completed') {
+        setPhotoDescription(pending.url, answer, pending.prompt);
+      }
+    };
+
+    on('response.done', handleResponseDone);
+    return () => {
+      off('response.done', handleResponseDone);
+    };
+  }, [on, off]);
+
   // Listen to realtime events
   useEffect(() => {
-    const logEvent = (data: { type: string; [key: string]: unknown }) => {
+    const logEvent = (data: ServerEvent) => {
       console.log('Event logged to UI:', data.type, data);
       
       // Display errors prominently
-      if (data.type === 'error' && data.error) {
-        const errorObj = data.error as { message?: string; code?: string };
-        const errorMsg = `API Error: ${errorObj.message || 'Unknown error'} (${errorObj.code || 'no code'})`;
+      if (data.type === 'error') {
+        const errorMsg = `API Error: ${data.error.message || 'Unknown error'} (${data.error.code || 'no code'})`;
         setLastError(errorMsg);
         setNotification(errorMsg);
       }
       
       // Display response failures
       if (data.type === 'response.done') {
-        const response = data.response as { 
-          status?: string; 
-          status_details?: { 
-            error?: { 
-              type?: string; 
-              message?: string; 
-              code?: string 
-            } 
-          } 
-        };
+        const response = data.response;
         
         if (response.status === 'failed' && response.status_details?.error) {
           const error = response.status_details.error;
@@ -273,7 +702,7 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
     };
 
     // Subscribe to key events
-    const eventTypes = [
+    const eventTypes: ServerEventType[] = [
       'session.created',
       'session.updated',
       'conversation.item.created',
@@ -289,6 +718,7 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
       'response.audio.delta',
       'response.audio.done',
       'response.text.delta',
+      'response.function_call_arguments.done',
       'response.done',
       'error',
     ];
@@ -310,43 +740,73 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
         p: 3,
       }}
     >
-      <Typography variant="h6" gutterBottom>
-        Controls
-      </Typography>
+      <Stack direction="row" alignItems="center" justifyContent="space-between">
+        <Typography variant="h6" gutterBottom>
+          Controls
+        </Typography>
+        <IconButton size="small" onClick={() => setSettingsOpen(true)} aria-label="Session settings">
+          <SettingsIcon fontSize="small" />
+        </IconButton>
+      </Stack>
 
       {/* Connection Status */}
       <Box sx={{ mb: 2 }}>
         <Chip
           label={
-            isConnected
-              ? 'Connected'
-              : connectionState === 'connecting'
-                ? 'Connecting...'
-                : 'Disconnected'
+            connectionMode === 'replay'
+              ? `Replay mode${isReplaying ? ' (playing)' : ''}`
+              : isConnected
+                ? connectionMode === 'mock'
+                  ? 'Connected (mock server)'
+                  : 'Connected'
+                : reconnectAttempt > 0
+                  ? `Reconnecting (attempt ${reconnectAttempt})...`
+                  : connectionState === 'connecting'
+                    ? 'Connecting...'
+                    : canRetry
+                      ? 'Disconnected (click to retry)'
+                      : 'Disconnected'
           }
-          color={isConnected ? 'success' : 'default'}
+          color={isConnected ? 'success' : reconnectAttempt > 0 ? 'warning' : 'default'}
           size="small"
+          onClick={canRetry ? reconnect : undefined}
         />
         <Typography variant="caption" display="block" color="text.secondary" sx={{ mt: 0.5 }}>
           {connectionState}
+          {!isConnected && lastDisconnectReason && ` · ${lastDisconnectReason}`}
         </Typography>
       </Box>
 
       <Stack spacing={2} sx={{ mt: 2 }}>
+        {/* Mic Mode */}
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={isPushToTalk ? 'push-to-talk' : 'toggle'}
+          onChange={(_, mode: 'toggle' | 'push-to-talk' | null) => mode && handleMicModeChange(mode)}
+          disabled={isTalking}
+        >
+          <ToggleButton value="toggle">Toggle</ToggleButton>
+          <ToggleButton value="push-to-talk">Push to talk</ToggleButton>
+        </ToggleButtonGroup>
+
         {/* Mic Button */}
         <Box>
           <IconButton
             size="large"
             color={isMicActive ? 'error' : 'primary'}
-            onClick={handleMicToggle}
+            onClick={isPushToTalk ? undefined : handleMicToggle}
+            onPointerDown={isPushToTalk ? handleTalkStart : undefined}
+            onPointerUp={isPushToTalk ? endPushToTalk : undefined}
+            onPointerLeave={isPushToTalk && isTalking ? endPushToTalk : undefined}
             disabled={!isConnected}
             sx={{
               width: 64,
               height: 64,
-              bgcolor: isMicActive ? 'error.main' : 'primary.main',
+              bgcolor: (isPushToTalk ? isTalking : isMicActive) ? 'error.main' : 'primary.main',
               color: 'background.paper',
               '&:hover': {
-                bgcolor: isMicActive ? 'error.dark' : 'primary.dark',
+                bgcolor: (isPushToTalk ? isTalking : isMicActive) ? 'error.dark' : 'primary.dark',
               },
               '&:disabled': {
                 bgcolor: 'action.disabledBackground',
@@ -354,13 +814,31 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
               transition: 'all 0.2s ease',
             }}
           >
-            {isMicActive ? <MicIcon /> : <MicOffIcon />}
+            {(isPushToTalk ? isTalking : isMicActive) ? <MicIcon /> : <MicOffIcon />}
           </IconButton>
           <Typography variant="caption" display="block" sx={{ mt: 1 }}>
-            {isMicActive ? 'Mic Active (Click to stop)' : 'Mic Off (Click to start)'}
+            {isPushToTalk
+              ? isTalking
+                ? `Talking... ${(heldMs / 1000).toFixed(1)}s buffered`
+                : 'Hold to talk (or hold Space)'
+              : isMicActive
+                ? 'Mic Active (Click to stop)'
+                : 'Mic Off (Click to start)'}
           </Typography>
         </Box>
 
+        {/* Audio Devices and Levels */}
+        <AudioDeviceControls
+          inputs={audioDevices.inputs}
+          outputs={audioDevices.outputs}
+          selection={audioDevices.selection}
+          onInputChange={audioDevices.setInputId}
+          onOutputChange={audioDevices.setOutputId}
+          canSelectOutput={audioDevices.canSelectOutput}
+          getMediaStreams={getMediaStreams}
+          isMetering={isConnected || isMicActive}
+        />
+
         {/* Share Button */}
         <Box>
           <IconButton
@@ -387,35 +865,168 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
             {isCapturing ? 'Capturing...' : isScreenSharing ? 'Stop Sharing' : 'Share Screen'}
           </Typography>
         </Box>
+
+        {/* Compare the screen with the previous capture */}
+        {isScreenSharing && lastCapture && (
+          <Box>
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<CompareIcon />}
+              onClick={compareWithLastCapture}
+              disabled={!isConnected || isCapturing}
+            >
+              Compare with last capture
+            </Button>
+          </Box>
+        )}
+
+        {/* Prompt used for screenshots and photos */}
+        <PromptTemplatePicker settings={promptSettings} onChange={savePromptSettings} />
+
+        {/* Region of interest (after the first capture) */}
+        {isScreenSharing && screenStream && (
+          <Box>
+            <Button
+              size="small"
+              variant="outlined"
+              startIcon={<CropIcon />}
+              onClick={handleOpenCropSelector}
+              disabled={isCapturing}
+            >
+              {cropRegion ? 'Change crop region' : 'Crop to region'}
+            </Button>
+            {cropRegion && (
+              <Typography variant="caption" display="block" color="text.secondary" sx={{ mt: 0.5 }}>
+                Sending {Math.round(cropRegion.width * 100)}% × {Math.round(cropRegion.height * 100)}% of the screen
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        {/* Image Upload Tray */}
+        <ImageTray
+          images={pendingImages}
+          onAddFiles={handleAddFiles}
+          onRemove={(id) => setPendingImages((prev) => prev.filter((image) => image.id !== id))}
+          onSend={sendPendingImages}
+          disabled={!isConnected}
+        />
+
+        {/* Continuous Analysis (only meaningful while sharing) */}
+        {isScreenSharing && (
+          <ScreenAnalysisControls
+            enabled={isAnalyzing}
+            onEnabledChange={setIsAnalyzing}
+            config={analysisConfig}
+            onConfigChange={setAnalysisConfig}
+            disabled={!isConnected}
+            lastDifference={lastDifference}
+            sentInLastMinute={sentInLastMinute}
+          />
+        )}
+
+        {/* Session Recording */}
+        <RecorderControls
+          isRecording={recorder.isRecording}
+          eventCount={recorder.eventCount}
+          audioSeconds={recorder.audioSeconds}
+          onStart={recorder.start}
+          onStop={recorder.stop}
+          onExportJsonl={recorder.exportJsonl}
+          onExportMarkdown={recorder.exportMarkdown}
+          onExportWav={recorder.exportWav}
+        />
+
+        {/* Replay a recorded log through the UI (replay mode, or a disconnected session) */}
+        <ReplayControls
+          isReplaying={isReplaying}
+          disabled={connectionMode !== 'replay' && isConnected}
+          onReplay={replayLog}
+          onStop={stopReplay}
+          onError={setNotification}
+        />
+
+        {/* Usage and Cost */}
+        <UsageMeter
+          usage={usage}
+          budget={budget}
+          onBudgetChange={setBudget}
+          status={budgetStatus}
+          onReset={resetUsage}
+        />
       </Stack>
 
       {/* Instructions */}
-      {!isConnected && (
+      {connectionMode === 'replay' && !isReplaying && (
+        <Alert severity="info" sx={{ mt: 2 }}>
+          Replay mode - load a recorded JSONL log to play it back
+        </Alert>
+      )}
+
+      {connectionMode !== 'replay' && !isConnected && !accessError && (
         <Alert severity="info" sx={{ mt: 2 }}>
           Connecting to OpenAI...
         </Alert>
       )}
 
-      {isConnected && !isMicActive && (
+      {!isConnected && accessError && (
+        <Alert
+          severity={accessError.status === 401 ? 'error' : 'warning'}
+          sx={{ mt: 2 }}
+          action={
+            accessError.status === 401 ? (
+              <Button color="inherit" size="small" onClick={reconnect}>
+                Retry
+              </Button>
+            ) : undefined
+          }
+        >
+          {accessError.status === 401
+            ? 'This server requires sign-in. Sign in at /api/auth/login (or enter your credentials), then retry.'
+            : 'Too many sessions started from here - reconnecting once the rate limit allows.'}
+        </Alert>
+      )}
+
+      {isConnected && (!isMicActive || isPushToTalk) && (
         <Alert severity="success" sx={{ mt: 2 }}>
-          Ready! Click mic button to start talking
+          {isPushToTalk
+            ? 'Ready! Hold the mic button or Space to talk'
+            : 'Ready! Click mic button to start talking'}
         </Alert>
       )}
 
-      {isConnected && isMicActive && (
+      {isConnected && isMicActive && !isPushToTalk && (
         <Alert severity="error" sx={{ mt: 2 }}>
           🎤 Listening... Click mic button to stop
         </Alert>
       )}
 
+      {budgetStatus === 'warning' && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          Approaching the usage budget ({Math.round(budget.warnRatio * 100)}% spent)
+        </Alert>
+      )}
+
+      {budgetStatus === 'exceeded' && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          Usage budget reached - new responses are blocked. Raise the budget to continue.
+        </Alert>
+      )}
+
       {lastError && (
         <Alert severity="error" sx={{ mt: 2 }} onClose={() => setLastError(null)}>
           {lastError}
         </Alert>
       )}
 
+      {/* Transcript */}
+      <Box sx={{ mt: 4, flex: 2, minHeight: 0, display: 'flex' }}>
+        <ChatPane on={on} off={off} images={sentImages} comparisons={comparisonLabels} />
+      </Box>
+
       {/* Events Log */}
-      <Box sx={{ mt: 4, flex: 1, overflow: 'auto' }}>
+      <Box sx={{ mt: 2, flex: 1, minHeight: 0, overflow: 'auto' }}>
         <Typography variant="subtitle2" gutterBottom>
           Events ({events.length})
         </Typography>
@@ -448,6 +1059,50 @@ export const ControlPane = forwardRef<ControlPaneRef, ControlPaneProps>(
         </Stack>
       </Box>
 
+      {/* Drop Zone Overlay */}
+      {isDraggingFiles && (
+        <Box
+          sx={{
+            position: 'fixed',
+            inset: 0,
+            zIndex: (theme) => theme.zIndex.modal + 1,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            bgcolor: 'rgba(0, 0, 0, 0.7)',
+            border: 3,
+            borderStyle: 'dashed',
+            borderColor: 'primary.main',
+            pointerEvents: 'none',
+          }}
+        >
+          <Typography variant="h5">Drop images to add them to the tray</Typography>
+        </Box>
+      )}
+
+      <CropSelector
+        open={!!cropPreview}
+        preview={cropPreview}
+        region={cropRegion}
+        onCancel={() => setCropPreview(null)}
+        onConfirm={(region) => {
+          setCropRegion(region);
+          setCropPreview(null);
+          setNotification(region ? 'Captures will be cropped to the selected region' : 'Sending full screen');
+        }}
+      />
+
+      <SessionSettingsDrawer
+        open={settingsOpen}
+        onClose={() => setSettingsOpen(false)}
+        settings={sessionSettings}
+        onApply={(settings) => {
+          setSessionSettings(settings);
+          setNotification(isConnected ? 'Updating session...' : 'Settings saved');
+        }}
+        status={sessionStatus}
+      />
+
       {/* Notification Snackbar */}
       <Snackbar
         open={!!notification}
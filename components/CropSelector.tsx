@@ -0,0 +1,143 @@
+'use client';
+
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from '@mui/material';
+import { useRef, useState } from 'react';
+import type { CropRegion } from '@/lib/screenshot';
+
+interface CropSelectorProps {
+  open: boolean;
+  preview: string | null; // Uncropped frame from the screen share
+  region: CropRegion | null;
+  onCancel: () => void;
+  onConfirm: (region: CropRegion | null) => void;
+}
+
+// Ignore accidental clicks that would select a sliver of the screen
+const MIN_REGION_SIZE = 0.02;
+
+export function CropSelector({ open, preview, region, onCancel, onConfirm }: CropSelectorProps) {
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="lg" fullWidth>
+      <DialogTitle>Select region of interest</DialogTitle>
+      {/* Remount on open so the selection starts from the saved region */}
+      {open && preview && (
+        <CropCanvas preview={preview} region={region} onCancel={onCancel} onConfirm={onConfirm} />
+      )}
+    </Dialog>
+  );
+}
+
+function CropCanvas({
+  preview,
+  region,
+  onCancel,
+  onConfirm,
+}: Omit<CropSelectorProps, 'open' | 'preview'> & { preview: string }) {
+  const [selection, setSelection] = useState<CropRegion | null>(region);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Pointer position as a fraction of the displayed image
+  const toFraction = (e: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = toFraction(e);
+    setSelection(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStartRef.current;
+    if (!start) {
+      return;
+    }
+    const point = toFraction(e);
+    setSelection({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    setSelection((prev) =>
+      prev && prev.width >= MIN_REGION_SIZE && prev.height >= MIN_REGION_SIZE ? prev : null
+    );
+  };
+
+  return (
+    <>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Drag a rectangle over the part of the screen the assistant should see.
+          Later captures are cropped to this region before sending.
+        </Typography>
+
+        <Box
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          sx={{
+            position: 'relative',
+            display: 'inline-block',
+            cursor: 'crosshair',
+            userSelect: 'none',
+            touchAction: 'none',
+            lineHeight: 0,
+            overflow: 'hidden',
+          }}
+        >
+          <Box
+            component="img"
+            ref={imageRef}
+            src={preview}
+            alt="Screen share preview"
+            draggable={false}
+            sx={{ maxWidth: '100%', maxHeight: '70vh' }}
+          />
+
+          {selection && (
+            <Box
+              sx={{
+                position: 'absolute',
+                left: `${selection.x * 100}%`,
+                top: `${selection.y * 100}%`,
+                width: `${selection.width * 100}%`,
+                height: `${selection.height * 100}%`,
+                border: 2,
+                borderColor: 'primary.main',
+                // Dim everything outside the selection
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                pointerEvents: 'none',
+              }}
+            />
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={() => onConfirm(null)}>Use full screen</Button>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" disabled={!selection} onClick={() => onConfirm(selection)}>
+          Crop to selection
+        </Button>
+      </DialogActions>
+    </>
+  );
+}
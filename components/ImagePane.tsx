@@ -1,49 +1,124 @@
 'use client';
 
-import { Box, Typography, Link, CircularProgress, Alert, IconButton, Tooltip } from '@mui/material';
+import {
+  Box,
+  Typography,
+  Link,
+  CircularProgress,
+  Alert,
+  IconButton,
+  Tooltip,
+  Stack,
+  Switch,
+  FormControlLabel,
+  TextField,
+  InputAdornment,
+  Chip,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
 import RefreshIcon from '@mui/icons-material/Refresh';
+import ImageSearchIcon from '@mui/icons-material/ImageSearch';
+import SearchIcon from '@mui/icons-material/Search';
+import QuestionAnswerIcon from '@mui/icons-material/QuestionAnswer';
+import CompareIcon from '@mui/icons-material/Compare';
 import Image from 'next/image';
-import { useState, useEffect } from 'react';
-
-interface UnsplashPhoto {
-  url: string;
-  photographer: string;
-  photographerUrl: string;
-  photoUrl: string;
-  description: string;
+import { useState, useEffect, forwardRef, useImperativeHandle } from 'react';
+import { PhotoHistoryStrip } from '@/components/PhotoHistoryStrip';
+import { usePhotoHistory } from '@/hooks/usePhotoHistory';
+import { usePromptTemplates } from '@/hooks/usePromptTemplates';
+import { renderPromptTemplate } from '@/lib/promptTemplates';
+import { addPhotoToHistory, clearPhotoHistory } from '@/lib/photoHistory';
+import {
+  LOCAL_IMAGE_ROUTE,
+  PHOTO_TOPICS,
+  fetchRandomPhoto,
+  type PhotoFilters,
+  type UnsplashPhoto,
+} from '@/lib/photos';
+
+const creditLinkSx = {
+  color: 'white',
+  textDecoration: 'underline',
+  '&:hover': {
+    opacity: 0.8,
+  },
+};
+
+export interface ImageChangeOptions {
+  fromTool?: boolean; // Changed by an assistant tool call, which sends its own follow-up
 }
 
 interface ImagePaneProps {
-  onImageChange?: () => void;
+  onImageChange?: (photo: UnsplashPhoto, options: ImageChangeOptions) => void;
+  onDescribePhoto?: (photo: UnsplashPhoto, prompt?: string) => void;
+  onComparePhotos?: (previous: UnsplashPhoto, current: UnsplashPhoto) => void;
+  autoDescribe?: boolean;
+  onAutoDescribeChange?: (value: boolean) => void;
+}
+
+export interface ImagePaneRef {
+  refresh: (filters?: PhotoFilters, options?: ImageChangeOptions) => Promise<UnsplashPhoto | null>;
+  getPhoto: () => UnsplashPhoto | null;
 }
 
-export function ImagePane({ onImageChange }: ImagePaneProps) {
+const overlayButtonSx = {
+  bgcolor: 'rgba(0, 0, 0, 0.6)',
+  color: 'white',
+  '&:hover': {
+    bgcolor: 'rgba(0, 0, 0, 0.8)',
+  },
+  '&.Mui-disabled': {
+    bgcolor: 'rgba(0, 0, 0, 0.3)',
+    color: 'rgba(255, 255, 255, 0.3)',
+  },
+};
+
+export const ImagePane = forwardRef<ImagePaneRef, ImagePaneProps>(
+  (
+    { onImageChange, onDescribePhoto, onComparePhotos, autoDescribe = false, onAutoDescribeChange },
+    ref
+  ) => {
   const [photo, setPhoto] = useState<UnsplashPhoto | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<PhotoFilters>({});
+  const [searchText, setSearchText] = useState('');
+  const [reaskPrompt, setReaskPrompt] = useState<string | null>(null); // Dialog open when set
+  const history = usePhotoHistory();
+  const [{ templates }] = usePromptTemplates();
+  const historyIndex = photo ? history.findIndex((entry) => entry.photo.url === photo.url) : -1;
+  const historyEntry = historyIndex >= 0 ? history[historyIndex] : undefined;
+  // The photo shown before this one (older entries follow in the history)
+  const previousPhoto = historyIndex >= 0 ? history[historyIndex + 1]?.photo : undefined;
 
-  const fetchPhoto = async () => {
+  // Later refreshes keep using the last filters (set from the UI or the assistant)
+  const fetchPhoto = async (
+    nextFilters: PhotoFilters = filters,
+    options: ImageChangeOptions = {}
+  ): Promise<UnsplashPhoto | null> => {
     try {
       setLoading(true);
       setError(null);
-      
-      // Add timestamp to prevent caching
-      const timestamp = Date.now();
-      const response = await fetch(`/api/unsplash?t=${timestamp}`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch photo');
-      }
+      setFilters(nextFilters);
+      setSearchText(nextFilters.query ?? '');
 
-      const data = await response.json();
+      const data = await fetchRandomPhoto(nextFilters);
       setPhoto(data);
+      addPhotoToHistory(data);
       
       // Notify parent that image changed (parent will handle timing)
       if (onImageChange) {
-        onImageChange();
+        onImageChange(data, options);
       }
+
+      return data;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load photo');
+      return null;
     } finally {
       setLoading(false);
     }
@@ -54,7 +129,34 @@ export function ImagePane({ onImageChange }: ImagePaneProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  if (loading) {
+  // Expose refresh and current photo to parent via ref (used by assistant tools)
+  useImperativeHandle(ref, () => ({
+    refresh: fetchPhoto,
+    getPhoto: () => photo,
+  }));
+
+  const handleSearch = () => {
+    fetchPhoto({ ...filters, query: searchText.trim() || undefined });
+  };
+
+  const handleTopicClick = (slug: string) => {
+    fetchPhoto({ ...filters, topic: filters.topic === slug ? undefined : slug });
+  };
+
+  // Show a photo from the history again (no auto-describe - it has an answer already)
+  const handleRestore = (restored: UnsplashPhoto) => {
+    setPhoto(restored);
+    setError(null);
+  };
+
+  const handleReask = () => {
+    if (photo && onDescribePhoto && reaskPrompt?.trim()) {
+      onDescribePhoto(photo, reaskPrompt.trim());
+    }
+    setReaskPrompt(null);
+  };
+
+  if (loading && !photo) {
     return (
       <Box
         sx={{
@@ -70,7 +172,7 @@ export function ImagePane({ onImageChange }: ImagePaneProps) {
     );
   }
 
-  if (error) {
+  if (error && !photo) {
     return (
       <Box
         sx={{
@@ -82,7 +184,16 @@ export function ImagePane({ onImageChange }: ImagePaneProps) {
           p: 3,
         }}
       >
-        <Alert severity="error">{error}</Alert>
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => fetchPhoto({})}>
+              Retry
+            </Button>
+          }
+        >
+          {error}
+        </Alert>
       </Box>
     );
   }
@@ -100,35 +211,132 @@ export function ImagePane({ onImageChange }: ImagePaneProps) {
         bgcolor: 'background.paper',
       }}
     >
-      {/* Refresh Button */}
-      <Box
+      {/* Image Controls */}
+      <Stack
+        spacing={1}
+        alignItems="flex-start"
         sx={{
           position: 'absolute',
           top: 16,
           left: 16,
+          right: 16,
           zIndex: 10,
         }}
       >
-        <Tooltip title="Change image">
-          <IconButton
-            onClick={fetchPhoto}
-            disabled={loading}
-            sx={{
-              bgcolor: 'rgba(0, 0, 0, 0.6)',
-              color: 'white',
-              '&:hover': {
-                bgcolor: 'rgba(0, 0, 0, 0.8)',
-              },
-              '&.Mui-disabled': {
-                bgcolor: 'rgba(0, 0, 0, 0.3)',
-                color: 'rgba(255, 255, 255, 0.3)',
-              },
-            }}
-          >
-            <RefreshIcon />
-          </IconButton>
-        </Tooltip>
-      </Box>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <Tooltip title="Change image">
+            <IconButton onClick={() => fetchPhoto()} disabled={loading} sx={overlayButtonSx}>
+              <RefreshIcon />
+            </IconButton>
+          </Tooltip>
+
+          {onDescribePhoto && (
+            <Tooltip title="Describe this photo">
+              <IconButton onClick={() => onDescribePhoto(photo)} disabled={loading} sx={overlayButtonSx}>
+                <ImageSearchIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+
+          {onDescribePhoto && (
+            <Tooltip title="Ask again with a different prompt">
+              <IconButton
+                onClick={() => setReaskPrompt(historyEntry?.prompt ?? '')}
+                disabled={loading}
+                sx={overlayButtonSx}
+              >
+                <QuestionAnswerIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+
+          {onComparePhotos && (
+            <Tooltip title="Compare with the previous photo">
+              <span>
+                <IconButton
+                  onClick={() => previousPhoto && onComparePhotos(previousPhoto, photo)}
+                  disabled={loading || !previousPhoto}
+                  sx={overlayButtonSx}
+                >
+                  <CompareIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+          )}
+
+          {onAutoDescribeChange && (
+            <FormControlLabel
+              control={
+                <Switch
+                  size="small"
+                  checked={autoDescribe}
+                  onChange={(e) => onAutoDescribeChange(e.target.checked)}
+                />
+              }
+              label={<Typography variant="caption">Describe new images</Typography>}
+              sx={{
+                m: 0,
+                pr: 1.5,
+                borderRadius: 4,
+                bgcolor: 'rgba(0, 0, 0, 0.6)',
+                color: 'white',
+              }}
+            />
+          )}
+
+          {loading && <CircularProgress size={20} sx={{ color: 'white' }} />}
+        </Stack>
+
+        {/* Search and Topics (also set by the assistant's refresh_image tool) */}
+        <TextField
+          size="small"
+          placeholder="Search photos, e.g. street signs"
+          value={searchText}
+          onChange={(e) => setSearchText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              handleSearch();
+            }
+          }}
+          disabled={loading}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon fontSize="small" sx={{ color: 'white' }} />
+                </InputAdornment>
+              ),
+            },
+          }}
+          sx={{
+            width: 320,
+            maxWidth: '100%',
+            borderRadius: 1,
+            bgcolor: 'rgba(0, 0, 0, 0.6)',
+            '& .MuiInputBase-input': { color: 'white' },
+          }}
+        />
+
+        <Stack direction="row" flexWrap="wrap" useFlexGap spacing={0.5}>
+          {PHOTO_TOPICS.map((topic) => (
+            <Chip
+              key={topic.slug}
+              label={topic.label}
+              size="small"
+              onClick={() => handleTopicClick(topic.slug)}
+              disabled={loading}
+              color={filters.topic === topic.slug ? 'primary' : 'default'}
+              sx={filters.topic === topic.slug ? undefined : { bgcolor: 'rgba(0, 0, 0, 0.6)', color: 'white' }}
+            />
+          ))}
+        </Stack>
+
+        {error && (
+          <Alert severity="warning" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+      </Stack>
 
       {/* Image */}
       <Box
@@ -144,10 +352,12 @@ export function ImagePane({ onImageChange }: ImagePaneProps) {
           fill
           style={{ objectFit: 'cover' }}
           priority
+          // The optimizer fetches without the user's credentials, which the guarded route rejects
+          unoptimized={photo.url.startsWith(LOCAL_IMAGE_ROUTE)}
         />
       </Box>
 
-      {/* Credit Overlay */}
+      {/* History, Description and Credit Overlay */}
       <Box
         sx={{
           position: 'absolute',
@@ -158,6 +368,30 @@ export function ImagePane({ onImageChange }: ImagePaneProps) {
           p: 2,
         }}
       >
+        <PhotoHistoryStrip
+          entries={history}
+          currentUrl={photo.url}
+          onSelect={(entry) => handleRestore(entry.photo)}
+          onClear={clearPhotoHistory}
+        />
+
+        {historyEntry?.description && (
+          <Typography
+            variant="body2"
+            sx={{
+              color: 'white',
+              mt: 1,
+              display: '-webkit-box',
+              WebkitLineClamp: 3,
+              WebkitBoxOrient: 'vertical',
+              overflow: 'hidden',
+            }}
+            title={historyEntry.prompt}
+          >
+            {historyEntry.description}
+          </Typography>
+        )}
+
         <Typography
           variant="caption"
           sx={{
@@ -166,37 +400,65 @@ export function ImagePane({ onImageChange }: ImagePaneProps) {
           }}
         >
           Photo by{' '}
-          <Link
-            href={photo.photographerUrl}
-            target="_blank"
-            rel="noopener noreferrer"
-            sx={{
-              color: 'white',
-              textDecoration: 'underline',
-              '&:hover': {
-                opacity: 0.8,
-              },
-            }}
-          >
-            {photo.photographer}
-          </Link>
+          {photo.photographerUrl ? (
+            <Link href={photo.photographerUrl} target="_blank" rel="noopener noreferrer" sx={creditLinkSx}>
+              {photo.photographer}
+            </Link>
+          ) : (
+            photo.photographer
+          )}
           {' '}on{' '}
-          <Link
-            href="https://unsplash.com"
-            target="_blank"
-            rel="noopener noreferrer"
-            sx={{
-              color: 'white',
-              textDecoration: 'underline',
-              '&:hover': {
-                opacity: 0.8,
-              },
-            }}
-          >
-            Unsplash
-          </Link>
+          {photo.sourceUrl || !photo.source ? (
+            <Link
+              href={photo.sourceUrl ?? 'https://unsplash.com'}
+              target="_blank"
+              rel="noopener noreferrer"
+              sx={creditLinkSx}
+            >
+              {photo.source ?? 'Unsplash'}
+            </Link>
+          ) : (
+            photo.source
+          )}
         </Typography>
       </Box>
+
+      {/* Re-ask Dialog */}
+      <Dialog open={reaskPrompt !== null} onClose={() => setReaskPrompt(null)} fullWidth maxWidth="sm">
+        <DialogTitle>Ask about this photo again</DialogTitle>
+        <DialogContent>
+          <Stack direction="row" flexWrap="wrap" useFlexGap spacing={0.5} sx={{ mb: 1 }}>
+            {templates.map((template) => (
+              <Chip
+                key={template.id}
+                label={template.name}
+                size="small"
+                variant="outlined"
+                onClick={() => setReaskPrompt(renderPromptTemplate(template.text, photo))}
+              />
+            ))}
+          </Stack>
+          <TextField
+            autoFocus
+            fullWidth
+            multiline
+            minRows={2}
+            margin="dense"
+            label="Prompt"
+            placeholder="e.g. What text is visible in this photo?"
+            value={reaskPrompt ?? ''}
+            onChange={(e) => setReaskPrompt(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReaskPrompt(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleReask} disabled={!reaskPrompt?.trim()}>
+            Ask
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
-}
+});
+
+ImagePane.displayName = 'ImagePane';
@@ -0,0 +1,102 @@
+'use client';
+
+import { Box, Stack, Typography, IconButton, Button, Tooltip } from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import AddPhotoAlternateIcon from '@mui/icons-material/AddPhotoAlternate';
+import SendIcon from '@mui/icons-material/Send';
+import { useRef } from 'react';
+
+export interface PendingImage {
+  id: string;
+  dataUrl: string;
+  name: string;
+}
+
+interface ImageTrayProps {
+  images: PendingImage[];
+  onAddFiles: (files: File[]) => void;
+  onRemove: (id: string) => void;
+  onSend: () => void;
+  disabled?: boolean;
+}
+
+export function ImageTray({ images, onAddFiles, onRemove, onSend, disabled = false }: ImageTrayProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<AddPhotoAlternateIcon />}
+          onClick={() => inputRef.current?.click()}
+        >
+          Add images
+        </Button>
+        {images.length > 0 && (
+          <Button
+            size="small"
+            variant="contained"
+            endIcon={<SendIcon />}
+            onClick={onSend}
+            disabled={disabled}
+          >
+            Send {images.length}
+          </Button>
+        )}
+      </Stack>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        hidden
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          if (files.length > 0) {
+            onAddFiles(files);
+          }
+          e.target.value = ''; // Allow picking the same file again
+        }}
+      />
+
+      {images.length > 0 ? (
+        <Stack direction="row" spacing={1} sx={{ mt: 1, overflowX: 'auto', pb: 0.5 }}>
+          {images.map((image) => (
+            <Box key={image.id} sx={{ position: 'relative', flexShrink: 0 }}>
+              <Tooltip title={image.name}>
+                <Box
+                  component="img"
+                  src={image.dataUrl}
+                  alt={image.name}
+                  sx={{ width: 64, height: 64, objectFit: 'cover', borderRadius: 1, display: 'block' }}
+                />
+              </Tooltip>
+              <IconButton
+                size="small"
+                onClick={() => onRemove(image.id)}
+                aria-label={`Remove ${image.name}`}
+                sx={{
+                  position: 'absolute',
+                  top: -8,
+                  right: -8,
+                  p: 0.25,
+                  bgcolor: 'background.paper',
+                  '&:hover': { bgcolor: 'background.default' },
+                }}
+              >
+                <CloseIcon sx={{ fontSize: 14 }} />
+              </IconButton>
+            </Box>
+          ))}
+        </Stack>
+      ) : (
+        <Typography variant="caption" display="block" color="text.secondary" sx={{ mt: 0.5 }}>
+          Drop, paste (Ctrl+V) or pick images to send them in one turn
+        </Typography>
+      )}
+    </Box>
+  );
+}
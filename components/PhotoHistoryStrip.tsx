@@ -0,0 +1,74 @@
+'use client';
+
+import { Box, Stack, Tooltip, Typography, IconButton, ButtonBase } from '@mui/material';
+import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
+import Image from 'next/image';
+import { LOCAL_IMAGE_ROUTE } from '@/lib/photos';
+import type { PhotoHistoryEntry } from '@/lib/photoHistory';
+
+interface PhotoHistoryStripProps {
+  entries: PhotoHistoryEntry[];
+  currentUrl: string | null;
+  onSelect: (entry: PhotoHistoryEntry) => void;
+  onClear: () => void;
+}
+
+function HistoryTooltip({ entry }: { entry: PhotoHistoryEntry }) {
+  return (
+    <Box sx={{ maxWidth: 280 }}>
+      <Typography variant="caption" display="block" sx={{ fontWeight: 600 }}>
+        {entry.photo.description} - {entry.photo.photographer}
+      </Typography>
+      <Typography variant="caption" display="block" sx={{ mt: 0.5 }}>
+        {entry.description ?? 'Not described yet'}
+      </Typography>
+    </Box>
+  );
+}
+
+export function PhotoHistoryStrip({ entries, currentUrl, onSelect, onClear }: PhotoHistoryStripProps) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Stack direction="row" spacing={1} alignItems="center">
+      <Stack direction="row" spacing={1} sx={{ overflowX: 'auto', py: 0.5, flex: 1 }}>
+        {entries.map((entry) => (
+          <Tooltip key={entry.photo.url} title={<HistoryTooltip entry={entry} />} placement="top">
+            <ButtonBase
+              onClick={() => onSelect(entry)}
+              aria-label={`Show ${entry.photo.description}`}
+              sx={{
+                position: 'relative',
+                flexShrink: 0,
+                width: 72,
+                height: 48,
+                borderRadius: 1,
+                overflow: 'hidden',
+                outline: entry.photo.url === currentUrl ? '2px solid white' : 'none',
+                opacity: entry.photo.url === currentUrl ? 1 : 0.7,
+                '&:hover': { opacity: 1 },
+              }}
+            >
+              <Image
+                src={entry.photo.url}
+                alt={entry.photo.description}
+                fill
+                sizes="72px"
+                style={{ objectFit: 'cover' }}
+                unoptimized={entry.photo.url.startsWith(LOCAL_IMAGE_ROUTE)}
+              />
+            </ButtonBase>
+          </Tooltip>
+        ))}
+      </Stack>
+
+      <Tooltip title="Clear history">
+        <IconButton size="small" onClick={onClear} sx={{ color: 'white' }}>
+          <DeleteSweepIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    </Stack>
+  );
+}
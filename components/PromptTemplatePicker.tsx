@@ -0,0 +1,161 @@
+'use client';
+
+import {
+  Box,
+  Stack,
+  Typography,
+  TextField,
+  MenuItem,
+  IconButton,
+  Tooltip,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import EditNoteIcon from '@mui/icons-material/EditNote';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AddIcon from '@mui/icons-material/Add';
+import { useState } from 'react';
+import { createItemId } from '@/lib/transcript';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_VARIABLES,
+  getSelectedTemplate,
+  type PromptTemplate,
+  type PromptTemplateSettings,
+} from '@/lib/promptTemplates';
+
+interface PromptTemplatePickerProps {
+  settings: PromptTemplateSettings;
+  onChange: (settings: PromptTemplateSettings) => void;
+  disabled?: boolean;
+}
+
+export function PromptTemplatePicker({ settings, onChange, disabled }: PromptTemplatePickerProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const selected = getSelectedTemplate(settings);
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField
+          select
+          size="small"
+          fullWidth
+          label="Prompt for captures"
+          value={selected.id}
+          onChange={(e) => onChange({ ...settings, selectedId: e.target.value })}
+          disabled={disabled}
+        >
+          {settings.templates.map((template) => (
+            <MenuItem key={template.id} value={template.id}>
+              {template.name}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Tooltip title="Edit prompt templates">
+          <IconButton size="small" onClick={() => setIsEditing(true)}>
+            <EditNoteIcon />
+          </IconButton>
+        </Tooltip>
+      </Stack>
+
+      <Dialog open={isEditing} onClose={() => setIsEditing(false)} fullWidth maxWidth="md">
+        {/* Form only mounts while open, so each open starts from the saved templates */}
+        <TemplateEditor
+          templates={settings.templates}
+          onSave={(templates) => {
+            onChange({ ...settings, templates });
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      </Dialog>
+    </Box>
+  );
+}
+
+function TemplateEditor({
+  templates,
+  onSave,
+  onCancel,
+}: {
+  templates: PromptTemplate[];
+  onSave: (templates: PromptTemplate[]) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<PromptTemplate[]>(templates);
+
+  const update = (id: string, changes: Partial<PromptTemplate>) => {
+    setDraft((prev) => prev.map((template) => (template.id === id ? { ...template, ...changes } : template)));
+  };
+
+  const isValid = draft.length > 0 && draft.every((template) => template.name.trim() && template.text.trim());
+
+  return (
+    <>
+      <DialogTitle>Prompt Templates</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Placeholders are filled from the photo in the image pane:{' '}
+          {PROMPT_VARIABLES.map((variable, index) => (
+            <span key={variable.name} title={variable.label}>
+              {index > 0 && ', '}
+              <code>{`{{${variable.name}}}`}</code>
+            </span>
+          ))}
+        </Typography>
+
+        <Stack spacing={3}>
+          {draft.map((template) => (
+            <Stack key={template.id} direction="row" spacing={1} alignItems="flex-start">
+              <Stack spacing={1} sx={{ flex: 1 }}>
+                <TextField
+                  size="small"
+                  label="Name"
+                  value={template.name}
+                  onChange={(e) => update(template.id, { name: e.target.value })}
+                />
+                <TextField
+                  size="small"
+                  label="Prompt"
+                  value={template.text}
+                  onChange={(e) => update(template.id, { text: e.target.value })}
+                  multiline
+                  minRows={2}
+                  maxRows={6}
+                />
+              </Stack>
+              <Tooltip title="Delete template">
+                <span>
+                  <IconButton
+                    onClick={() => setDraft((prev) => prev.filter((item) => item.id !== template.id))}
+                    disabled={draft.length === 1}
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Stack>
+          ))}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          startIcon={<AddIcon />}
+          onClick={() => setDraft((prev) => [...prev, { id: createItemId('prompt'), name: 'New prompt', text: '' }])}
+        >
+          Add
+        </Button>
+        <Button onClick={() => setDraft(DEFAULT_PROMPT_TEMPLATES)}>Reset to defaults</Button>
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button variant="contained" onClick={() => onSave(draft)} disabled={!isValid}>
+          Save
+        </Button>
+      </DialogActions>
+    </>
+  );
+}
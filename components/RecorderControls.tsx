@@ -0,0 +1,75 @@
+'use client';
+
+import { Box, Stack, Typography, Button } from '@mui/material';
+import FiberManualRecordIcon from '@mui/icons-material/FiberManualRecord';
+import StopIcon from '@mui/icons-material/Stop';
+import DownloadIcon from '@mui/icons-material/Download';
+
+interface RecorderControlsProps {
+  isRecording: boolean;
+  eventCount: number;
+  audioSeconds: number;
+  onStart: () => void;
+  onStop: () => void;
+  onExportJsonl: () => void;
+  onExportMarkdown: () => void;
+  onExportWav: () => void;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+}
+
+export function RecorderControls({
+  isRecording,
+  eventCount,
+  audioSeconds,
+  onStart,
+  onStop,
+  onExportJsonl,
+  onExportMarkdown,
+  onExportWav,
+}: RecorderControlsProps) {
+  const hasRecording = eventCount > 0 || audioSeconds > 0;
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Button
+          size="small"
+          variant={isRecording ? 'contained' : 'outlined'}
+          color="error"
+          startIcon={isRecording ? <StopIcon /> : <FiberManualRecordIcon />}
+          onClick={isRecording ? onStop : onStart}
+        >
+          {isRecording ? 'Stop recording' : 'Record session'}
+        </Button>
+        {hasRecording && (
+          <Typography variant="caption" color="text.secondary">
+            {formatDuration(audioSeconds)} · {eventCount} events
+          </Typography>
+        )}
+      </Stack>
+
+      {hasRecording && (
+        <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+          <Button size="small" startIcon={<DownloadIcon />} onClick={onExportMarkdown}>
+            Markdown
+          </Button>
+          <Button size="small" startIcon={<DownloadIcon />} onClick={onExportJsonl}>
+            JSONL
+          </Button>
+          <Button
+            size="small"
+            startIcon={<DownloadIcon />}
+            onClick={onExportWav}
+            disabled={audioSeconds === 0}
+          >
+            WAV
+          </Button>
+        </Stack>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { Box, Stack, Typography, Button, ToggleButton, ToggleButtonGroup } from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import StopIcon from '@mui/icons-material/Stop';
+import { useRef, useState } from 'react';
+import { parseEventLog, REPLAY_SPEEDS, type ReplayEvent } from '@/lib/replay';
+
+interface ReplayControlsProps {
+  isReplaying: boolean;
+  disabled?: boolean; // A live session is connected
+  onReplay: (events: ReplayEvent[], speed: number) => void;
+  onStop: () => void;
+  onError: (message: string) => void;
+}
+
+export function ReplayControls({ isReplaying, disabled, onReplay, onStop, onError }: ReplayControlsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [speed, setSpeed] = useState(1);
+  const [fileName, setFileName] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const events = parseEventLog(await file.text());
+      setFileName(`${file.name} (${events.length} events)`);
+      onReplay(events, speed);
+    } catch (error) {
+      console.error('Failed to load event log:', error);
+      onError(`Could not replay ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} alignItems="center">
+        {isReplaying ? (
+          <Button size="small" variant="contained" startIcon={<StopIcon />} onClick={onStop}>
+            Stop replay
+          </Button>
+        ) : (
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<PlayArrowIcon />}
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled}
+          >
+            Replay log
+          </Button>
+        )}
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={speed}
+          onChange={(_, value: number | null) => value !== null && setSpeed(value)}
+          disabled={isReplaying || disabled}
+        >
+          {REPLAY_SPEEDS.map((value) => (
+            <ToggleButton key={value} value={value}>
+              {Number.isFinite(value) ? `${value}x` : 'Instant'}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Stack>
+
+      {disabled && !isReplaying && (
+        <Typography variant="caption" display="block" color="text.secondary" sx={{ mt: 0.5 }}>
+          Replay is available in replay mode or while disconnected
+        </Typography>
+      )}
+
+      {fileName && (
+        <Typography variant="caption" display="block" color="text.secondary" sx={{ mt: 0.5 }}>
+          {isReplaying ? 'Replaying' : 'Replayed'} {fileName}
+        </Typography>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".jsonl,.ndjson,application/x-ndjson"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) {
+            handleFile(file);
+          }
+          e.target.value = ''; // Allow picking the same file again
+        }}
+      />
+    </Box>
+  );
+}
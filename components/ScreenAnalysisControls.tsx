@@ -0,0 +1,89 @@
+'use client';
+
+import { Box, Stack, Typography, Switch, FormControlLabel, Slider } from '@mui/material';
+import type { ScreenAnalysisConfig } from '@/hooks/useScreenAnalysis';
+
+interface ScreenAnalysisControlsProps {
+  enabled: boolean;
+  onEnabledChange: (value: boolean) => void;
+  config: ScreenAnalysisConfig;
+  onConfigChange: (config: ScreenAnalysisConfig) => void;
+  disabled?: boolean;
+  lastDifference: number | null;
+  sentInLastMinute: number;
+}
+
+export function ScreenAnalysisControls({
+  enabled,
+  onEnabledChange,
+  config,
+  onConfigChange,
+  disabled = false,
+  lastDifference,
+  sentInLastMinute,
+}: ScreenAnalysisControlsProps) {
+  const update = <K extends keyof ScreenAnalysisConfig>(key: K, value: ScreenAnalysisConfig[K]) => {
+    onConfigChange({ ...config, [key]: value });
+  };
+
+  return (
+    <Box>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            disabled={disabled}
+            size="small"
+          />
+        }
+        label={<Typography variant="body2">Continuous analysis</Typography>}
+      />
+
+      {enabled && (
+        <Stack spacing={0.5} sx={{ pl: 1, pr: 2 }}>
+          <Typography variant="caption" color="text.secondary">
+            Sample every {(config.intervalMs / 1000).toFixed(1)}s
+          </Typography>
+          <Slider
+            min={1000}
+            max={10000}
+            step={500}
+            value={config.intervalMs}
+            onChange={(_, value) => update('intervalMs', value as number)}
+            size="small"
+          />
+
+          <Typography variant="caption" color="text.secondary">
+            Change threshold: {Math.round(config.changeThreshold * 100)}% of screen
+          </Typography>
+          <Slider
+            min={0.02}
+            max={0.5}
+            step={0.01}
+            value={config.changeThreshold}
+            onChange={(_, value) => update('changeThreshold', value as number)}
+            size="small"
+          />
+
+          <Typography variant="caption" color="text.secondary">
+            Max {config.maxImagesPerMinute} images per minute
+          </Typography>
+          <Slider
+            min={1}
+            max={20}
+            step={1}
+            value={config.maxImagesPerMinute}
+            onChange={(_, value) => update('maxImagesPerMinute', value as number)}
+            size="small"
+          />
+
+          <Typography variant="caption" color="text.secondary">
+            Last change: {lastDifference === null ? '—' : `${Math.round(lastDifference * 100)}%`}
+            {' · '}Sent this minute: {sentInLastMinute}
+          </Typography>
+        </Stack>
+      )}
+    </Box>
+  );
+}
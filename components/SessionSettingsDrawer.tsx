@@ -0,0 +1,223 @@
+'use client';
+
+import {
+  Box,
+  Stack,
+  Typography,
+  Drawer,
+  TextField,
+  MenuItem,
+  Slider,
+  Button,
+  Chip,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { useState } from 'react';
+import type { SessionUpdateStatus } from '@/hooks/useRealtime';
+import {
+  VOICES,
+  TRANSCRIPTION_MODELS,
+  DEFAULT_SESSION_SETTINGS,
+  type SessionSettings,
+  type TurnDetectionMode,
+} from '@/lib/sessionSettings';
+
+interface SessionSettingsDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  settings: SessionSettings;
+  onApply: (settings: SessionSettings) => void;
+  status: SessionUpdateStatus;
+}
+
+const STATUS_LABELS: Record<SessionUpdateStatus, string> = {
+  idle: 'Not sent yet',
+  pending: 'Applying...',
+  confirmed: 'Confirmed by server',
+  failed: 'Server rejected update',
+};
+
+const STATUS_COLORS = {
+  idle: 'default',
+  pending: 'info',
+  confirmed: 'success',
+  failed: 'error',
+} as const;
+
+export function SessionSettingsDrawer({
+  open,
+  onClose,
+  settings,
+  onApply,
+  status,
+}: SessionSettingsDrawerProps) {
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      {/* Form only mounts while open, so each open starts from the saved settings */}
+      <SettingsForm settings={settings} onApply={onApply} status={status} />
+    </Drawer>
+  );
+}
+
+function SettingsForm({
+  settings,
+  onApply,
+  status,
+}: Omit<SessionSettingsDrawerProps, 'open' | 'onClose'>) {
+  const [draft, setDraft] = useState<SessionSettings>(settings);
+
+  const update = <K extends keyof SessionSettings>(key: K, value: SessionSettings[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  return (
+    <Box sx={{ width: 360, p: 3 }}>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 2 }}>
+        <Typography variant="h6">Session Settings</Typography>
+        <Chip label={STATUS_LABELS[status]} color={STATUS_COLORS[status]} size="small" />
+      </Stack>
+
+      <Stack spacing={3}>
+        <TextField
+          select
+          label="Voice"
+          value={draft.voice}
+          onChange={(e) => update('voice', e.target.value)}
+          helperText="Voice can't change after the assistant has spoken in this session"
+          size="small"
+        >
+          {VOICES.map((voice) => (
+            <MenuItem key={voice} value={voice}>
+              {voice}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <TextField
+          label="Instructions"
+          value={draft.instructions}
+          onChange={(e) => update('instructions', e.target.value)}
+          multiline
+          minRows={3}
+          maxRows={8}
+          size="small"
+        />
+
+        <Box>
+          <Typography variant="caption" color="text.secondary" display="block" gutterBottom>
+            Turn detection
+          </Typography>
+          <ToggleButtonGroup
+            exclusive
+            size="small"
+            value={draft.turnDetection}
+            onChange={(_, value: TurnDetectionMode | null) => value && update('turnDetection', value)}
+          >
+            <ToggleButton value="server_vad">Server VAD</ToggleButton>
+            <ToggleButton value="semantic_vad">Semantic VAD</ToggleButton>
+            <ToggleButton value="none">Push to talk</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+
+        {draft.turnDetection === 'server_vad' && (
+          <>
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Threshold: {draft.vadThreshold.toFixed(2)}
+              </Typography>
+              <Slider
+                min={0}
+                max={1}
+                step={0.05}
+                value={draft.vadThreshold}
+                onChange={(_, value) => update('vadThreshold', value as number)}
+                size="small"
+              />
+            </Box>
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Prefix padding: {draft.prefixPaddingMs}ms
+              </Typography>
+              <Slider
+                min={0}
+                max={1000}
+                step={50}
+                value={draft.prefixPaddingMs}
+                onChange={(_, value) => update('prefixPaddingMs', value as number)}
+                size="small"
+              />
+            </Box>
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Silence duration: {draft.silenceDurationMs}ms
+              </Typography>
+              <Slider
+                min={100}
+                max={2000}
+                step={50}
+                value={draft.silenceDurationMs}
+                onChange={(_, value) => update('silenceDurationMs', value as number)}
+                size="small"
+              />
+            </Box>
+          </>
+        )}
+
+        {draft.turnDetection === 'semantic_vad' && (
+          <TextField
+            select
+            label="Eagerness"
+            value={draft.eagerness}
+            onChange={(e) => update('eagerness', e.target.value as SessionSettings['eagerness'])}
+            size="small"
+          >
+            {['auto', 'low', 'medium', 'high'].map((eagerness) => (
+              <MenuItem key={eagerness} value={eagerness}>
+                {eagerness}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+
+        <TextField
+          select
+          label="Transcription model"
+          value={draft.transcriptionModel}
+          onChange={(e) => update('transcriptionModel', e.target.value)}
+          size="small"
+        >
+          {TRANSCRIPTION_MODELS.map((model) => (
+            <MenuItem key={model} value={model}>
+              {model}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <Box>
+          <Typography variant="caption" color="text.secondary">
+            Temperature: {draft.temperature.toFixed(2)}
+          </Typography>
+          {/* Realtime API accepts 0.6 - 1.2 */}
+          <Slider
+            min={0.6}
+            max={1.2}
+            step={0.05}
+            value={draft.temperature}
+            onChange={(_, value) => update('temperature', value as number)}
+            size="small"
+          />
+        </Box>
+
+        <Stack direction="row" spacing={1}>
+          <Button variant="contained" disabled={!isDirty} onClick={() => onApply(draft)}>
+            Apply
+          </Button>
+          <Button onClick={() => setDraft(DEFAULT_SESSION_SETTINGS)}>Reset to defaults</Button>
+        </Stack>
+      </Stack>
+    </Box>
+  );
+}
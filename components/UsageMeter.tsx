@@ -0,0 +1,123 @@
+'use client';
+
+import {
+  Box,
+  Stack,
+  Typography,
+  LinearProgress,
+  TextField,
+  InputAdornment,
+  Button,
+  Tooltip,
+} from '@mui/material';
+import {
+  RESPONSE_KINDS,
+  RESPONSE_KIND_LABELS,
+  type BudgetStatus,
+  type UsageBudget,
+  type UsageBucket,
+  type UsageTotals,
+} from '@/lib/usage';
+
+interface UsageMeterProps {
+  usage: UsageTotals;
+  budget: UsageBudget;
+  onBudgetChange: (budget: UsageBudget) => void;
+  status: BudgetStatus;
+  onReset: () => void;
+}
+
+const STATUS_COLORS = {
+  ok: 'primary',
+  warning: 'warning',
+  exceeded: 'error',
+} as const;
+
+function formatCost(usd: number): string {
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function describeBucket(bucket: UsageBucket): string {
+  const { breakdown } = bucket;
+  return [
+    `${bucket.responses} responses`,
+    `text in ${breakdown.textInput + breakdown.cachedTextInput}`,
+    `audio in ${breakdown.audioInput + breakdown.cachedAudioInput}`,
+    `image in ${breakdown.imageInput + breakdown.cachedImageInput}`,
+    `text out ${breakdown.textOutput}`,
+    `audio out ${breakdown.audioOutput}`,
+  ].join(' · ');
+}
+
+export function UsageMeter({ usage, budget, onBudgetChange, status, onReset }: UsageMeterProps) {
+  const { total } = usage;
+  const progress = budget.limitUsd ? Math.min((usage.spentUsd / budget.limitUsd) * 100, 100) : 0;
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="baseline" justifyContent="space-between">
+        <Tooltip title={describeBucket(total)}>
+          <Typography variant="body2">
+            {formatCost(total.cost)} · {formatTokens(total.tokens)} tokens
+          </Typography>
+        </Tooltip>
+        <Tooltip title="Clear the counts - the budget keeps counting everything spent this session">
+          <span>
+            <Button size="small" onClick={onReset} disabled={total.responses === 0}>
+              Reset
+            </Button>
+          </span>
+        </Tooltip>
+      </Stack>
+
+      {usage.spentUsd > total.cost && (
+        <Typography variant="caption" display="block" color="text.secondary">
+          {formatCost(usage.spentUsd)} spent this session
+        </Typography>
+      )}
+
+      {budget.limitUsd !== null && (
+        <LinearProgress
+          variant="determinate"
+          value={progress}
+          color={STATUS_COLORS[status]}
+          sx={{ my: 0.5 }}
+        />
+      )}
+
+      <Stack spacing={0.25} sx={{ mb: 1 }}>
+        {RESPONSE_KINDS.filter((kind) => usage.byKind[kind].responses > 0).map((kind) => (
+          <Tooltip key={kind} title={describeBucket(usage.byKind[kind])} placement="left">
+            <Typography variant="caption" color="text.secondary">
+              {RESPONSE_KIND_LABELS[kind]}: {formatCost(usage.byKind[kind].cost)} ·{' '}
+              {formatTokens(usage.byKind[kind].tokens)} tokens
+            </Typography>
+          </Tooltip>
+        ))}
+      </Stack>
+
+      <TextField
+        label="Budget"
+        type="number"
+        size="small"
+        value={budget.limitUsd ?? ''}
+        onChange={(e) =>
+          onBudgetChange({
+            ...budget,
+            limitUsd: e.target.value === '' ? null : Math.max(Number(e.target.value), 0),
+          })
+        }
+        placeholder="No limit"
+        slotProps={{
+          input: { startAdornment: <InputAdornment position="start">$</InputAdornment> },
+          htmlInput: { min: 0, step: 0.05 },
+        }}
+        sx={{ width: 140 }}
+      />
+    </Box>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  getAudioDeviceSelection,
+  getServerAudioDeviceSelection,
+  saveAudioDeviceSelection,
+  subscribeAudioDeviceSelection,
+  supportsOutputSelection,
+  type AudioDeviceSelection,
+} from '@/lib/audioDevices';
+
+interface UseAudioDevicesResult {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+  selection: AudioDeviceSelection;
+  canSelectOutput: boolean;
+  setInputId: (deviceId: string | null) => void;
+  setOutputId: (deviceId: string | null) => void;
+}
+
+const subscribeNever = () => () => {};
+
+// 'default' and 'communications' are Chrome aliases of real devices
+function isListed(device: MediaDeviceInfo, kind: MediaDeviceKind): boolean {
+  return (
+    device.kind === kind &&
+    !!device.deviceId &&
+    device.deviceId !== 'default' &&
+    device.deviceId !== 'communications'
+  );
+}
+
+/**
+ * Available mics and speakers plus the persisted choice. Labels are empty until
+ * mic permission is granted, so the list is re-read when the permission changes.
+ */
+export function useAudioDevices(): UseAudioDevicesResult {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const selection = useSyncExternalStore(
+    subscribeAudioDeviceSelection,
+    getAudioDeviceSelection,
+    getServerAudioDeviceSelection
+  );
+  // Feature detection differs between server and browser, so read it after hydration
+  const canSelectOutput = useSyncExternalStore(subscribeNever, supportsOutputSelection, () => false);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.enumerateDevices) {
+      return;
+    }
+
+    let cancelled = false;
+    const refresh = () => {
+      mediaDevices
+        .enumerateDevices()
+        .then((list) => {
+          if (!cancelled) {
+            setDevices(list);
+          }
+        })
+        .catch((error) => console.warn('Failed to list audio devices:', error));
+    };
+
+    let permission: PermissionStatus | null = null;
+    navigator.permissions
+      ?.query({ name: 'microphone' as PermissionName })
+      .then((status) => {
+        if (cancelled) {
+          return;
+        }
+        permission = status;
+        permission.addEventListener('change', refresh);
+      })
+      .catch(() => undefined); // Not queryable in every browser; devicechange still fires
+
+    refresh();
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      mediaDevices.removeEventListener('devicechange', refresh);
+      permission?.removeEventListener('change', refresh);
+    };
+  }, []);
+
+  const setInputId = useCallback((inputId: string | null) => {
+    saveAudioDeviceSelection({ ...getAudioDeviceSelection(), inputId });
+  }, []);
+
+  const setOutputId = useCallback((outputId: string | null) => {
+    saveAudioDeviceSelection({ ...getAudioDeviceSelection(), outputId });
+  }, []);
+
+  return {
+    inputs: devices.filter((device) => isListed(device, 'audioinput')),
+    outputs: devices.filter((device) => isListed(device, 'audiooutput')),
+    selection,
+    canSelectOutput,
+    setInputId,
+    setOutputId,
+  };
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { UseRealtimeResult } from '@/hooks/useRealtime';
+
+export interface AudioLevels {
+  input: number; // 0..1, mic
+  output: number; // 0..1, the model's voice
+}
+
+const SILENT: AudioLevels = { input: 0, output: 0 };
+const UPDATE_INTERVAL_MS = 66; // ~15 updates per second is plenty for a meter
+
+interface LevelTap {
+  stream: MediaStream | null;
+  source: MediaStreamAudioSourceNode | null;
+  analyser: AnalyserNode;
+  samples: Float32Array<ArrayBuffer>;
+}
+
+// RMS mapped onto a rough dB scale so speech fills the meter
+function readLevel(tap: LevelTap): number {
+  if (!tap.source) {
+    return 0;
+  }
+  tap.analyser.getFloatTimeDomainData(tap.samples);
+  let sum = 0;
+  for (let i = 0; i < tap.samples.length; i++) {
+    sum += tap.samples[i] * tap.samples[i];
+  }
+  const rms = Math.sqrt(sum / tap.samples.length);
+  const db = 20 * Math.log10(rms || 1e-8);
+  return Math.min(Math.max((db + 60) / 60, 0), 1);
+}
+
+/**
+ * Live input and output levels. Streams are re-read every frame, so swapping
+ * devices or reconnecting rewires the meters without extra plumbing.
+ */
+export function useAudioLevels(
+  getMediaStreams: UseRealtimeResult['getMediaStreams'],
+  enabled: boolean
+): AudioLevels {
+  const [levels, setLevels] = useState<AudioLevels>(SILENT);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const audioContext = new AudioContext();
+    const createTap = (): LevelTap => {
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 512;
+      return { stream: null, source: null, analyser, samples: new Float32Array(analyser.fftSize) };
+    };
+    const input = createTap();
+    const output = createTap();
+
+    const rewire = (tap: LevelTap, stream: MediaStream | null) => {
+      if (tap.stream === stream) {
+        return;
+      }
+      tap.source?.disconnect();
+      tap.stream = stream;
+      tap.source =
+        stream && stream.getAudioTracks().length > 0 ? audioContext.createMediaStreamSource(stream) : null;
+      tap.source?.connect(tap.analyser);
+    };
+
+    let frame = 0;
+    let lastUpdate = 0;
+    const tick = (now: number) => {
+      frame = requestAnimationFrame(tick);
+      if (now - lastUpdate < UPDATE_INTERVAL_MS) {
+        return;
+      }
+      lastUpdate = now;
+
+      const { mic, remote } = getMediaStreams();
+      rewire(input, mic);
+      rewire(output, remote);
+      // Created outside a user gesture, so it may start suspended
+      if (audioContext.state === 'suspended') {
+        audioContext.resume().catch(() => undefined);
+      }
+      setLevels({ input: readLevel(input), output: readLevel(output) });
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      input.source?.disconnect();
+      output.source?.disconnect();
+      audioContext.close();
+      setLevels(SILENT);
+    };
+  }, [getMediaStreams, enabled]);
+
+  return levels;
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+
+function imageFilesFrom(list: FileList | DataTransferItemList | null | undefined): File[] {
+  if (!list) {
+    return [];
+  }
+
+  const files: File[] = [];
+  for (const entry of Array.from<File | DataTransferItem>(list)) {
+    const file = entry instanceof File ? entry : entry.kind === 'file' ? entry.getAsFile() : null;
+    if (file && file.type.startsWith('image/')) {
+      files.push(file);
+    }
+  }
+  return files;
+}
+
+/**
+ * Accept images dropped anywhere on the page or pasted from the clipboard.
+ * Returns whether a drag with files is currently over the page.
+ */
+export function useImageInput(onFiles: (files: File[]) => void): boolean {
+  const [isDragging, setIsDragging] = useState(false);
+  const onFilesRef = useRef(onFiles);
+
+  useEffect(() => {
+    onFilesRef.current = onFiles;
+  }, [onFiles]);
+
+  useEffect(() => {
+    // dragenter/dragleave fire for every child element - count them
+    let dragDepth = 0;
+
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) {
+        return;
+      }
+      dragDepth++;
+      setIsDragging(true);
+    };
+
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) {
+        return;
+      }
+      dragDepth = Math.max(0, dragDepth - 1);
+      if (dragDepth === 0) {
+        setIsDragging(false);
+      }
+    };
+
+    // Required for the drop event to fire
+    const handleDragOver = (e: DragEvent) => {
+      if (hasFiles(e)) {
+        e.preventDefault();
+      }
+    };
+
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) {
+        return;
+      }
+      e.preventDefault();
+      dragDepth = 0;
+      setIsDragging(false);
+
+      const files = imageFilesFrom(e.dataTransfer?.files);
+      if (files.length > 0) {
+        onFilesRef.current(files);
+      }
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = imageFilesFrom(e.clipboardData?.items);
+      if (files.length > 0) {
+        e.preventDefault();
+        onFilesRef.current(files);
+      }
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    window.addEventListener('paste', handlePaste);
+
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+
+  return isDragging;
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import {
+  getPhotoHistory,
+  getServerPhotoHistory,
+  subscribePhotoHistory,
+  type PhotoHistoryEntry,
+} from '@/lib/photoHistory';
+
+/**
+ * Photo history persisted in IndexedDB, newest first (empty until loaded)
+ */
+export function usePhotoHistory(): PhotoHistoryEntry[] {
+  return useSyncExternalStore(subscribePhotoHistory, getPhotoHistory, getServerPhotoHistory);
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import {
+  getPromptTemplateSettings,
+  getServerPromptTemplateSettings,
+  savePromptTemplateSettings,
+  subscribePromptTemplateSettings,
+  type PromptTemplateSettings,
+} from '@/lib/promptTemplates';
+
+/**
+ * Prompt templates and the selected one, persisted in localStorage
+ */
+export function usePromptTemplates(): [
+  PromptTemplateSettings,
+  (settings: PromptTemplateSettings) => void,
+] {
+  const settings = useSyncExternalStore(
+    subscribePromptTemplateSettings,
+    getPromptTemplateSettings,
+    getServerPromptTemplateSettings
+  );
+
+  return [settings, savePromptTemplateSettings];
+}
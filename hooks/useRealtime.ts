@@ -1,64 +1,249 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  parseServerEvent,
+  assertClientEvent,
+  type ClientEvent,
+  type ServerEvent,
+  type SessionConfig,
+  type ServerEventType,
+  type ServerEventHandler,
+  type AnyEventHandler,
+  type EventDirection,
+} from '@/lib/realtimeEvents';
+import {
+  buildSessionConfig,
+  diffSessionConfig,
+  sessionMatchesPatch,
+  DEFAULT_SESSION_SETTINGS,
+} from '@/lib/sessionSettings';
+import {
+  DEFAULT_CONNECTION_MODE,
+  REALTIME_WS_URL,
+  RealtimeRequestError,
+  exchangeSdp,
+  fetchClientSecret,
+  getDirectSocketProtocols,
+  getRelayUrl,
+  isClientSecretFresh,
+  type ClientSecret,
+  type ConnectionMode,
+} from '@/lib/realtimeConnection';
+import {
+  DEFAULT_TRANSPORT,
+  type RealtimeTransport,
+  type TransportCallbacks,
+  type TransportKind,
+} from '@/lib/realtimeTransport';
+import { createWebRtcTransport } from '@/lib/webrtcTransport';
+import { createWebSocketTransport, openBrowserSocket, type OpenSocket } from '@/lib/websocketTransport';
+import {
+  addResponseUsage,
+  getBudgetStatus,
+  getPriceTable,
+  DEFAULT_USAGE_BUDGET,
+  EMPTY_USAGE,
+  resetUsageTotals,
+  type BudgetStatus,
+  type PriceTable,
+  type UsageBudget,
+  type UsageTotals,
+} from '@/lib/usage';
+import { startReplay, type ReplayEvent } from '@/lib/replay';
+import { createPcmPlayer, decodePcm16, type PcmPlayer } from '@/lib/audioPlayer';
+import { openMicStream } from '@/lib/audioDevices';
+import { createItemId, CONTEXT_ITEM_PREFIX } from '@/lib/transcript';
 
-// Event type definitions
-interface RealtimeEvent {
-  type: string;
-  [key: string]: unknown;
+export interface UseRealtimeOptions {
+  replayContext?: boolean; // Re-send recent transcript turns after a reconnect
+  sessionConfig?: SessionConfig; // Changes are sent as incremental session.update events
+  connectionMode?: ConnectionMode; // Read on mount; defaults to NEXT_PUBLIC_REALTIME_CONNECTION_MODE
+  transport?: TransportKind; // Read on mount; defaults to NEXT_PUBLIC_REALTIME_TRANSPORT
+  prices?: PriceTable; // Used to estimate the cost of each response
+  budget?: UsageBudget; // Once exceeded, response.create is blocked
+  inputDeviceId?: string | null; // Mic to capture; changing it swaps the live track
+  outputDeviceId?: string | null; // Speaker for the model's voice (setSinkId)
 }
 
-type EventHandler = (data: RealtimeEvent) => void;
+export type SessionUpdateStatus = 'idle' | 'pending' | 'confirmed' | 'failed';
 
-interface UseRealtimeResult {
+// Our API routes refused to create a session (401 not authorized, 429 rate limited)
+export interface AccessError {
+  status: number;
+  message: string;
+}
+
+export interface UseRealtimeResult {
   isConnected: boolean;
   connectionState: RTCPeerConnectionState;
-  send: (event: RealtimeEvent) => void;
-  on: (type: string, handler: EventHandler) => void;
-  off: (type: string, handler: EventHandler) => void;
+  reconnectAttempt: number; // 0 when connected or not reconnecting
+  lastDisconnectReason: string | null;
+  accessError: AccessError | null;
+  reconnect: () => void;
+  sessionStatus: SessionUpdateStatus; // Whether the last session.update was confirmed
+  serverSession: SessionConfig | null; // Session as last reported by session.updated
+  send: (event: ClientEvent) => void;
+  on: <T extends ServerEventType>(type: T, handler: ServerEventHandler<T>) => void;
+  off: <T extends ServerEventType>(type: T, handler: ServerEventHandler<T>) => void;
+  onAny: (handler: AnyEventHandler) => void;
+  offAny: (handler: AnyEventHandler) => void;
+  getMediaStreams: () => { mic: MediaStream | null; remote: MediaStream | null };
   startMic: () => Promise<void>;
   stopMic: () => void;
+  startPushToTalk: () => Promise<void>;
+  endPushToTalk: () => Promise<void>;
+  isTalking: boolean; // Push-to-talk button currently held
+  talkStartedAt: number | null; // Date.now() when the current push-to-talk began
   enableAudio: () => Promise<void>;
   cancelResponse: () => void;
+  isResponding: boolean; // A response is currently in progress
   isMicActive: boolean;
+  usage: UsageTotals; // Token and cost totals since mount (or the last reset), plus spentUsd since mount
+  budgetStatus: BudgetStatus;
+  resetUsage: () => void; // Clears the counts; the budget still counts spentUsd
+  connectionMode: ConnectionMode;
+  transport: TransportKind;
+  replayLog: (events: ReplayEvent[], speed?: number) => void; // Feed a recorded log through emit
+  stopReplay: () => void;
+  isReplaying: boolean;
   cleanup: () => void;
 }
 
-export function useRealtime(): UseRealtimeResult {
-  const [pc, setPc] = useState<RTCPeerConnection | null>(null);
-  const [dataChannel, setDataChannel] = useState<RTCDataChannel | null>(null);
+// Reconnect with exponential backoff: 1s, 2s, 4s, ... capped at 30s
+const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+// Number of recent text turns replayed into a resumed session
+const MAX_CONTEXT_TURNS = 10;
+
+const DEFAULT_SESSION_CONFIG = buildSessionConfig(DEFAULT_SESSION_SETTINGS);
+const DEFAULT_PRICES = getPriceTable();
+
+// Push-to-talk: wait for trailing audio before committing, and ignore accidental taps
+// (the server rejects commits with less than 100ms of audio)
+const PTT_RELEASE_DELAY_MS = 200;
+const PTT_MIN_DURATION_MS = 150;
+
+// The assistant audio part currently being played, for truncation on barge-in
+interface PlaybackItem {
+  itemId: string;
+  contentIndex: number;
+  startMs: number | null; // Player timeline (delta playback) or Date.now() (WebRTC); null until audio starts
+  durationMs: number; // Audio received so far (delta playback only)
+  isComplete: boolean; // response.audio.done received
+}
+
+interface ContextTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+function getReconnectDelay(attempt: number): number {
+  const delay = Math.min(
+    RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1),
+    RECONNECT_MAX_DELAY_MS
+  );
+  // Add up to 20% jitter so many tabs don't retry in lockstep
+  return delay + Math.random() * delay * 0.2;
+}
+
+export function useRealtime(options: UseRealtimeOptions = {}): UseRealtimeResult {
+  const {
+    replayContext = false,
+    sessionConfig = DEFAULT_SESSION_CONFIG,
+    connectionMode = DEFAULT_CONNECTION_MODE,
+    transport: transportKind = DEFAULT_TRANSPORT,
+    prices = DEFAULT_PRICES,
+    budget = DEFAULT_USAGE_BUDGET,
+    inputDeviceId = null,
+    outputDeviceId = null,
+  } = options;
+
   const [isConnected, setIsConnected] = useState(false);
   const [connectionState, setConnectionState] =
     useState<RTCPeerConnectionState>('new');
   const [isMicActive, setIsMicActive] = useState(false);
+  const [talkStartedAt, setTalkStartedAt] = useState<number | null>(null);
+  const [isResponding, setIsResponding] = useState(false);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [lastDisconnectReason, setLastDisconnectReason] = useState<string | null>(null);
+  const [accessError, setAccessError] = useState<AccessError | null>(null);
+  const [sessionStatus, setSessionStatus] = useState<SessionUpdateStatus>('idle');
+  const [serverSession, setServerSession] = useState<SessionConfig | null>(null);
+  const [usage, setUsage] = useState<UsageTotals>(EMPTY_USAGE);
+  const [isReplaying, setIsReplaying] = useState(false);
 
-  const eventHandlers = useRef<Map<string, Set<EventHandler>>>(new Map());
+  const budgetStatus = getBudgetStatus(usage.spentUsd, budget);
+
+  const transportRef = useRef<RealtimeTransport | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const isClosingRef = useRef(false); // Set when we tear down on purpose
+  const connectRef = useRef<(() => void) | null>(null);
+  const recentContextRef = useRef<ContextTurn[]>([]);
+  const talkStartedAtRef = useRef<number | null>(null);
+  const isReleasingRef = useRef(false);
+  const sessionConfigRef = useRef(sessionConfig);
+  const pendingSessionRef = useRef<{ eventId: string; patch: SessionConfig } | null>(null);
+  const clientSecretRef = useRef<ClientSecret | null>(null); // Direct mode only
+  const handleServerEventRef = useRef<((data: ServerEvent) => void) | null>(null);
+  const stopReplayRef = useRef<(() => void) | null>(null);
+  const pricesRef = useRef(prices);
+  const responsesBlockedRef = useRef(false);
+
+  const eventHandlers = useRef<Map<ServerEventType, Set<ServerEventHandler>>>(new Map());
+  const anyEventHandlers = useRef<Set<AnyEventHandler>>(new Set());
   const localStreamRef = useRef<MediaStream | null>(null);
+  const micAttachedRef = useRef(false); // The mic track is being sent (not just held for push-to-talk)
+  const inputDeviceIdRef = useRef(inputDeviceId);
+  const outputDeviceIdRef = useRef(outputDeviceId);
   const audioElementRef = useRef<HTMLAudioElement | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const audioQueueRef = useRef<Int16Array[]>([]);
-  const isPlayingRef = useRef(false);
+  const playerRef = useRef<PcmPlayer | null>(null); // Plays audio deltas (WebSocket and replay)
+  const playbackItemRef = useRef<PlaybackItem | null>(null);
   const activeResponseRef = useRef<string | null>(null); // Track active response ID
 
-  // Event emitter functions
-  const on = useCallback((type: string, handler: EventHandler) => {
+  // Event emitter functions (handlers are stored untyped, keyed by event type)
+  const on = useCallback(<T extends ServerEventType>(type: T, handler: ServerEventHandler<T>) => {
     if (!eventHandlers.current.has(type)) {
       eventHandlers.current.set(type, new Set());
     }
-    eventHandlers.current.get(type)!.add(handler);
+    eventHandlers.current.get(type)!.add(handler as unknown as ServerEventHandler);
   }, []);
 
-  const off = useCallback((type: string, handler: EventHandler) => {
+  const off = useCallback(<T extends ServerEventType>(type: T, handler: ServerEventHandler<T>) => {
     const handlers = eventHandlers.current.get(type);
     if (handlers) {
-      handlers.delete(handler);
+      handlers.delete(handler as unknown as ServerEventHandler);
       if (handlers.size === 0) {
         eventHandlers.current.delete(type);
       }
     }
   }, []);
 
-  const emit = useCallback((type: string, data: RealtimeEvent) => {
+  const onAny = useCallback((handler: AnyEventHandler) => {
+    anyEventHandlers.current.add(handler);
+  }, []);
+
+  const offAny = useCallback((handler: AnyEventHandler) => {
+    anyEventHandlers.current.delete(handler);
+  }, []);
+
+  const emitAny = useCallback((event: ServerEvent | ClientEvent, direction: EventDirection) => {
+    anyEventHandlers.current.forEach((handler) => {
+      try {
+        handler(event, direction);
+      } catch (error) {
+        console.error('Error in event tap:', error);
+      }
+    });
+  }, []);
+
+  const emit = useCallback((data: ServerEvent) => {
+    emitAny(data, 'server');
+
+    const type = data.type;
     const handlers = eventHandlers.current.get(type);
     if (handlers) {
       handlers.forEach((handler) => {
@@ -69,94 +254,186 @@ export function useRealtime(): UseRealtimeResult {
         }
       });
     }
+  }, [emitAny]);
+
+  // One playback source per transport: WebRTC plays the remote track through
+  // the audio element, everything else plays response.audio.delta events
+  const playsAudioDeltas = transportKind === 'websocket' || connectionMode === 'replay';
+
+  const getPlayer = useCallback(() => {
+    if (!playerRef.current) {
+      playerRef.current = createPcmPlayer();
+      if (outputDeviceIdRef.current) {
+        playerRef.current
+          .setSinkId(outputDeviceIdRef.current)
+          .catch((err) => console.warn('Could not select speaker:', err));
+      }
+      console.log('🎵 Audio player initialized');
+    }
+    return playerRef.current;
   }, []);
 
-  // Play queued audio chunks
-  const playAudioQueue = useCallback(async () => {
-    if (isPlayingRef.current || audioQueueRef.current.length === 0) {
-      return;
+  // Queue a base64 PCM16 delta for gapless playback; returns its duration in ms
+  const playAudioDelta = useCallback((base64Audio: string) => {
+    try {
+      const pcm16 = decodePcm16(base64Audio);
+      getPlayer().push(pcm16);
+      return (pcm16.length / 24000) * 1000;
+    } catch (error) {
+      console.error('Failed to decode audio delta:', error);
+      return 0;
     }
+  }, [getPlayer]);
 
-    isPlayingRef.current = true;
-    const audioContext = audioContextRef.current!;
+  // Drop queued audio immediately (cancelled or cleared output)
+  const flushAudio = useCallback(() => {
+    playerRef.current?.flush();
+  }, []);
 
-    while (audioQueueRef.current.length > 0) {
-      const pcm16 = audioQueueRef.current.shift()!;
+  // Send event through DataChannel
+  const send = useCallback((event: ClientEvent) => {
+    if (event.type === 'response.create' && responsesBlockedRef.current) {
+      console.warn('🚫 Usage budget exceeded, not requesting a response');
+      return;
+    }
+    if (stopReplayRef.current) {
+      // Keep replays deterministic - the log already contains the server's answers
+      console.log('Replay in progress, not sending:', event.type);
+      return;
+    }
 
-      // Convert PCM16 to Float32 for Web Audio API
-      const float32 = new Float32Array(pcm16.length);
-      for (let i = 0; i < pcm16.length; i++) {
-        float32[i] = pcm16[i] / 32768.0; // Normalize to [-1, 1]
+    const transport = transportRef.current;
+    if (transport?.isOpen()) {
+      try {
+        assertClientEvent(event);
+        transport.send(JSON.stringify(event));
+        emitAny(event, 'client');
+      } catch (error) {
+        console.error('Failed to send event:', error);
       }
+    } else {
+      console.warn('Connection not ready, cannot send event:', event.type);
+    }
+  }, [emitAny]);
 
-      // Create audio buffer (24kHz sample rate for Realtime API)
-      const audioBuffer = audioContext.createBuffer(1, float32.length, 24000);
-      audioBuffer.copyToChannel(float32, 0);
+  // Send a session.update and wait for session.updated to confirm it
+  const sendSessionUpdate = useCallback((patch: SessionConfig) => {
+    const eventId = `evt_session_${Date.now()}`;
+    pendingSessionRef.current = { eventId, patch };
+    setSessionStatus('pending');
+    console.log('Sending session config:', patch);
+    send({ type: 'session.update', event_id: eventId, session: patch });
+  }, [send]);
 
-      // Play the buffer
-      const source = audioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(audioContext.destination);
-      
-      await new Promise<void>((resolve) => {
-        source.onended = () => resolve();
-        source.start();
-      });
+  useEffect(() => {
+    pricesRef.current = prices;
+    responsesBlockedRef.current = budgetStatus === 'exceeded';
+    if (budgetStatus !== 'ok') {
+      console.warn(`💸 Usage budget ${budgetStatus}: $${usage.spentUsd.toFixed(4)} spent`);
     }
+  }, [prices, budgetStatus, usage.spentUsd]);
 
-    isPlayingRef.current = false;
-  }, []);
+  const resetUsage = useCallback(() => setUsage(resetUsageTotals), []);
 
-  // Audio playback function
-  const playAudioDelta = useCallback((base64Audio: string) => {
-    try {
-      // Initialize AudioContext if needed
-      if (!audioContextRef.current) {
-        // @ts-expect-error - webkitAudioContext for Safari compatibility
-        audioContextRef.current = new (window.AudioContext || window.webkitAudioContext)();
-        console.log('🎵 AudioContext initialized');
-      }
+  // How much of an assistant audio part the user has actually heard
+  const getHeardMs = useCallback((item: PlaybackItem) => {
+    if (item.startMs === null) {
+      return 0;
+    }
+    if (!playsAudioDeltas) {
+      return Date.now() - item.startMs;
+    }
+    const playedMs = (playerRef.current?.getPlayedMs() ?? 0) - item.startMs;
+    return Math.min(Math.max(playedMs, 0), item.durationMs);
+  }, [playsAudioDeltas]);
 
-      // Decode base64 to binary
-      const binaryString = atob(base64Audio);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
+  // Barge-in: stop assistant audio and truncate the item to what was heard, so
+  // the model's context matches the conversation the user experienced
+  const interruptPlayback = useCallback(() => {
+    const item = playbackItemRef.current;
+    playbackItemRef.current = null;
+    if (!item) {
+      return;
+    }
 
-      // Convert to Int16Array (PCM16)
-      const pcm16 = new Int16Array(bytes.buffer);
-      audioQueueRef.current.push(pcm16);
+    const heardMs = Math.round(getHeardMs(item));
+    if (playsAudioDeltas && item.isComplete && heardMs >= item.durationMs) {
+      return; // Already played in full
+    }
 
-      // Start playback if not already playing
-      if (!isPlayingRef.current) {
-        playAudioQueue();
-      }
-    } catch (error) {
-      console.error('Failed to decode audio delta:', error);
+    if (playsAudioDeltas) {
+      flushAudio();
+    } else {
+      send({ type: 'output_audio_buffer.clear' });
     }
-  }, [playAudioQueue]);
+    console.log(`✂️ Truncating ${item.itemId} at ${heardMs}ms`);
+    send({
+      type: 'conversation.item.truncate',
+      item_id: item.itemId,
+      content_index: item.contentIndex,
+      audio_end_ms: heardMs,
+    });
+  }, [playsAudioDeltas, getHeardMs, flushAudio, send]);
 
-  // Send event through DataChannel
-  const send = useCallback(
-    (event: RealtimeEvent) => {
-      if (dataChannel?.readyState === 'open') {
-        try {
-          dataChannel.send(JSON.stringify(event));
-        } catch (error) {
-          console.error('Failed to send event:', error);
+  // Hot-swap the mic: a new track goes through the existing sender (replaceTrack)
+  // or worklet, so there is no renegotiation
+  useEffect(() => {
+    inputDeviceIdRef.current = inputDeviceId;
+
+    const previous = localStreamRef.current;
+    const previousTrack = previous?.getAudioTracks()[0];
+    if (!previous || !previousTrack || previousTrack.getSettings().deviceId === inputDeviceId) {
+      return;
+    }
+
+    let cancelled = false;
+    openMicStream(inputDeviceId)
+      .then(async (stream) => {
+        if (cancelled || localStreamRef.current !== previous) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
         }
-      } else {
-        console.warn('DataChannel not ready, cannot send event:', event.type);
-      }
-    },
-    [dataChannel]
-  );
+        if (micAttachedRef.current) {
+          await transportRef.current?.setMicTrack(stream.getAudioTracks()[0]);
+        }
+        localStreamRef.current = stream;
+        previous.getTracks().forEach((track) => track.stop());
+        console.log('🎙️ Switched microphone to', stream.getAudioTracks()[0].label);
+      })
+      .catch((error) => console.error('Failed to switch microphone:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [inputDeviceId]);
+
+  // Route the model's voice to the chosen speaker (element or delta player)
+  useEffect(() => {
+    outputDeviceIdRef.current = outputDeviceId;
+    const sinkId = outputDeviceId ?? '';
+
+    const element = audioElementRef.current;
+    if (element && element.sinkId !== sinkId) {
+      element.setSinkId(sinkId).catch((err) => console.warn('Could not select speaker:', err));
+    }
+    playerRef.current?.setSinkId(sinkId).catch((err) => console.warn('Could not select speaker:', err));
+  }, [outputDeviceId]);
+
+  // Push incremental session changes while connected
+  useEffect(() => {
+    const patch = diffSessionConfig(sessionConfigRef.current, sessionConfig);
+    sessionConfigRef.current = sessionConfig;
+
+    if (patch && transportRef.current?.isOpen()) {
+      sendSessionUpdate(patch);
+    }
+  }, [sessionConfig, sendSessionUpdate]);
 
   // Microphone control
   const startMic = useCallback(async () => {
-    if (!pc) {
-      console.error('PeerConnection not initialized');
+    const transport = transportRef.current;
+    if (!transport) {
+      console.error('Transport not initialized');
       return;
     }
 
@@ -172,38 +449,28 @@ export function useRealtime(): UseRealtimeResult {
           console.warn('Could not enable audio playback yet:', err);
         }
       }
+      // Without a remote track, assistant audio plays through the delta player
+      if (playsAudioDeltas) {
+        getPlayer().resume().catch((err) => console.warn('Could not resume audio yet:', err));
+      }
       
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-      });
+      const stream = await openMicStream(inputDeviceIdRef.current);
 
       const audioTrack = stream.getAudioTracks()[0];
       console.log('Audio track obtained:', audioTrack.label);
       
-      // Always use replaceTrack since we created a transceiver during setup
-      const audioSender = pc.getSenders().find(s => s.track === null || s.track.kind === 'audio');
-      
-      if (audioSender) {
-        console.log('Replacing audio track (no renegotiation)');
-        await audioSender.replaceTrack(audioTrack);
-      } else {
-        console.error('No audio sender found! This should not happen.');
-        return;
-      }
+      await transport.setMicTrack(audioTrack);
+      micAttachedRef.current = true;
 
       localStreamRef.current = stream;
       setIsMicActive(true);
 
-      console.log('Microphone started - DataChannel should stay open');
+      console.log('Microphone started');
     } catch (error) {
       console.error('Failed to start microphone:', error);
       throw error;
     }
-  }, [pc]);
+  }, [playsAudioDeltas, getPlayer]);
 
   const stopMic = useCallback(() => {
     console.log('Stopping microphone...');
@@ -216,18 +483,15 @@ export function useRealtime(): UseRealtimeResult {
       localStreamRef.current = null;
     }
 
-    // Replace track with null instead of removing
-    if (pc) {
-      const audioSender = pc.getSenders().find(s => s.track?.kind === 'audio');
-      if (audioSender) {
-        console.log('Replacing audio track with null');
-        audioSender.replaceTrack(null).catch(err => 
-          console.error('Failed to replace track:', err)
-        );
-      }
-    }
+    // Detach the track without renegotiating
+    micAttachedRef.current = false;
+    transportRef.current?.setMicTrack(null).catch((err) =>
+      console.error('Failed to detach microphone:', err)
+    );
 
     setIsMicActive(false);
+    talkStartedAtRef.current = null;
+    setTalkStartedAt(null);
 
     // Only cancel if there's an active response
     if (activeResponseRef.current) {
@@ -236,22 +500,192 @@ export function useRealtime(): UseRealtimeResult {
     } else {
       console.log('No active response to cancel');
     }
+    interruptPlayback();
 
     console.log('Microphone stopped');
-  }, [pc, send]);
+  }, [send, interruptPlayback]);
+
+  // Push-to-talk: attach the mic only while held, then commit the buffer manually.
+  // Requires turn_detection: null so the server doesn't segment turns itself.
+  const startPushToTalk = useCallback(async () => {
+    const transport = transportRef.current;
+    if (!transport) {
+      console.error('Transport not initialized');
+      return;
+    }
+    if (talkStartedAtRef.current !== null || isReleasingRef.current) {
+      return;
+    }
+
+    // Mark as held before any await so a quick release isn't lost
+    const startedAt = Date.now();
+    talkStartedAtRef.current = startedAt;
+    setTalkStartedAt(startedAt);
+
+    try {
+      // Enable audio playback (user interaction required for autoplay)
+      if (audioElementRef.current) {
+        audioElementRef.current.play().catch((err) =>
+          console.warn('Could not enable audio playback yet:', err)
+        );
+      }
+      if (playsAudioDeltas) {
+        getPlayer().resume().catch((err) => console.warn('Could not resume audio yet:', err));
+      }
+
+      // Keep the stream between presses so holding again is instant
+      if (!localStreamRef.current) {
+        localStreamRef.current = await openMicStream(inputDeviceIdRef.current);
+        setIsMicActive(true);
+      }
+      // Released during the permission prompt - keep the stream for next time
+      if (talkStartedAtRef.current !== startedAt) {
+        return;
+      }
+
+      // Interrupt the assistant and start from an empty buffer
+      if (activeResponseRef.current) {
+        console.log('Cancelling active response for push-to-talk');
+        send({ type: 'response.cancel' });
+      }
+      interruptPlayback();
+      send({ type: 'input_audio_buffer.clear' });
+
+      await transport.setMicTrack(localStreamRef.current.getAudioTracks()[0]);
+      // Released while attaching (e.g. the capture worklet loading): undo it,
+      // unless a new press already took over the track
+      if (talkStartedAtRef.current !== startedAt) {
+        if (talkStartedAtRef.current === null) {
+          await transport.setMicTrack(null);
+        }
+        return;
+      }
+      micAttachedRef.current = true;
+      console.log('🎙️ Push-to-talk started');
+    } catch (error) {
+      talkStartedAtRef.current = null;
+      setTalkStartedAt(null);
+      console.error('Failed to start push-to-talk:', error);
+      throw error;
+    }
+  }, [send, interruptPlayback, playsAudioDeltas, getPlayer]);
+
+  const endPushToTalk = useCallback(async () => {
+    const startedAt = talkStartedAtRef.current;
+    if (startedAt === null) {
+      return;
+    }
+
+    const heldMs = Date.now() - startedAt;
+    talkStartedAtRef.current = null;
+    setTalkStartedAt(null);
+
+    // Released before the mic was attached: nothing was sent, so nothing to
+    // commit (startPushToTalk sees the release and backs out)
+    if (!micAttachedRef.current) {
+      console.log('Push-to-talk released before the mic was ready');
+      return;
+    }
+    isReleasingRef.current = true;
+
+    try {
+      // Let trailing audio packets reach the server before detaching the track
+      await new Promise((resolve) => setTimeout(resolve, PTT_RELEASE_DELAY_MS));
+
+      micAttachedRef.current = false;
+      await transportRef.current?.setMicTrack(null);
+
+      if (heldMs < PTT_MIN_DURATION_MS) {
+        console.log('Push-to-talk too short, discarding buffer');
+        send({ type: 'input_audio_buffer.clear' });
+        return;
+      }
+
+      console.log(`🎙️ Push-to-talk released after ${heldMs}ms, committing buffer`);
+      send({ type: 'input_audio_buffer.commit' });
+      send({
+        type: 'response.create',
+        response: {
+          modalities: ['audio', 'text'],
+        },
+      });
+    } catch (error) {
+      console.error('Failed to end push-to-talk:', error);
+    } finally {
+      isReleasingRef.current = false;
+    }
+  }, [send]);
+
+  const stopReplay = useCallback(() => {
+    if (!stopReplayRef.current) {
+      return;
+    }
+    stopReplayRef.current();
+    stopReplayRef.current = null;
+    flushAudio();
+    playbackItemRef.current = null;
+    activeResponseRef.current = null;
+    setIsResponding(false);
+    setIsReplaying(false);
+    console.log('⏹️ Replay stopped');
+  }, [flushAudio]);
+
+  // Play a recorded log back through the same path as live events,
+  // with the original timing divided by speed
+  const replayLog = useCallback(
+    (events: ReplayEvent[], speed = 1) => {
+      // Replayed and live events would interleave in the same state
+      if (connectionMode !== 'replay' && transportRef.current?.isOpen()) {
+        console.warn('Live session is connected, not replaying');
+        return;
+      }
+      stopReplay();
+
+      // Called from a click, so audio deltas in the log are allowed to play
+      getPlayer()
+        .resume()
+        .catch((err) => console.warn('Could not resume audio for replay:', err));
+
+      console.log(`▶️ Replaying ${events.length} events at ${speed}x`);
+      setIsReplaying(true);
+      stopReplayRef.current = startReplay(events, {
+        speed,
+        onEvent: (event) => handleServerEventRef.current?.(event),
+        onDone: () => {
+          console.log('🏁 Replay finished');
+          stopReplayRef.current = null;
+          setIsReplaying(false);
+        },
+      });
+    },
+    [connectionMode, getPlayer, stopReplay]
+  );
+
+  // Live mic and remote (assistant) audio, e.g. for recording
+  const getMediaStreams = useCallback(
+    () => ({
+      mic: localStreamRef.current,
+      remote:
+        (audioElementRef.current?.srcObject as MediaStream | null) ?? playerRef.current?.stream ?? null,
+    }),
+    []
+  );
 
   // Enable audio playback (requires user interaction)
   const enableAudio = useCallback(async () => {
-    if (audioElementRef.current) {
-      try {
+    try {
+      if (playsAudioDeltas) {
+        await getPlayer().resume();
+        console.log('✅ Audio playback enabled');
+      } else if (audioElementRef.current) {
         await audioElementRef.current.play();
         console.log('✅ Audio playback enabled');
-      } catch (err) {
-        console.warn('Could not enable audio playback:', err);
-        throw err;
       }
+    } catch (err) {
+      console.warn('Could not enable audio playback:', err);
+      throw err;
     }
-  }, []);
+  }, [playsAudioDeltas, getPlayer]);
 
   // Cancel active response (only if there is one)
   const cancelResponse = useCallback(() => {
@@ -261,30 +695,44 @@ export function useRealtime(): UseRealtimeResult {
     } else {
       console.log('No active response to cancel');
     }
-  }, [send]);
+    interruptPlayback();
+  }, [send, interruptPlayback]);
+
+  // Close the current transport without triggering a reconnect
+  const closeConnection = useCallback(() => {
+    const transport = transportRef.current;
+    transportRef.current = null;
+    transport?.close();
+  }, []);
 
   // Cleanup function
   const cleanup = useCallback(() => {
+    isClosingRef.current = true;
+
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+
     // Stop microphone
     if (localStreamRef.current) {
       localStreamRef.current.getTracks().forEach((track) => track.stop());
       localStreamRef.current = null;
     }
 
-    // Close data channel
-    if (dataChannel?.readyState === 'open') {
-      dataChannel.close();
-    }
+    // Close the transport (peer connection or WebSocket)
+    closeConnection();
 
-    // Close peer connection
-    if (pc?.connectionState !== 'closed') {
-      pc?.close();
-    }
+    // Stop any replay timers
+    stopReplayRef.current?.();
+    stopReplayRef.current = null;
 
     // Clear event handlers
     eventHandlers.current.clear();
 
-    // Remove audio element
+    // Release the delta player and remove the audio element
+    playerRef.current?.close();
+    playerRef.current = null;
     if (audioElementRef.current) {
       audioElementRef.current.srcObject = null;
       audioElementRef.current = null;
@@ -293,254 +741,460 @@ export function useRealtime(): UseRealtimeResult {
     setIsConnected(false);
     setIsMicActive(false);
     setConnectionState('closed');
+    setReconnectAttempt(0);
 
-    console.log('WebRTC resources cleaned up');
-  }, [dataChannel, pc]);
+    console.log('Realtime resources cleaned up');
+  }, [closeConnection]);
+
+  // Manually retry (e.g. after reconnect attempts are exhausted)
+  const reconnect = useCallback(() => {
+    connectRef.current?.();
+  }, []);
 
-  // Initialize WebRTC connection
+  // Initialize the Realtime connection
   useEffect(() => {
-    const initConnection = async () => {
-      try {
-        // Create peer connection
-        const peerConnection = new RTCPeerConnection({
-          iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
+    isClosingRef.current = false;
+
+    // Tear down a dropped connection and retry with exponential backoff (or after
+    // the server's Retry-After). Events from connections we've already replaced are ignored.
+    const scheduleReconnect = (
+      transport: RealtimeTransport,
+      reason: string,
+      { retry = true, delayMs }: { retry?: boolean; delayMs?: number | null } = {}
+    ) => {
+      if (isClosingRef.current || transportRef.current !== transport) {
+        return;
+      }
+
+      console.warn('🔌 Connection lost:', reason);
+      closeConnection();
+      setIsConnected(false);
+      setLastDisconnectReason(reason);
+      activeResponseRef.current = null;
+      setIsResponding(false);
+
+      if (!retry) {
+        reconnectAttemptRef.current = 0;
+        setReconnectAttempt(0);
+        return;
+      }
+
+      const attempt = reconnectAttemptRef.current + 1;
+      if (attempt > MAX_RECONNECT_ATTEMPTS) {
+        console.error(`Giving up after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts`);
+        reconnectAttemptRef.current = 0;
+        setReconnectAttempt(0);
+        setLastDisconnectReason(`${reason} (gave up after ${MAX_RECONNECT_ATTEMPTS} attempts)`);
+        return;
+      }
+
+      const delay = delayMs ?? getReconnectDelay(attempt);
+      console.log(`🔁 Reconnect attempt ${attempt} in ${Math.round(delay)}ms`);
+      reconnectAttemptRef.current = attempt;
+      setReconnectAttempt(attempt);
+
+      reconnectTimerRef.current = setTimeout(() => {
+        reconnectTimerRef.current = null;
+        initConnection();
+      }, delay);
+    };
+
+    // Send the session config, then optionally restore recent text context
+    const configureSession = (isResumed: boolean) => {
+      sendSessionUpdate(sessionConfigRef.current);
+
+      if (isResumed && replayContext) {
+        console.log(`Replaying ${recentContextRef.current.length} context turns`);
+        recentContextRef.current.forEach((turn) => {
+          send({
+            type: 'conversation.item.create',
+            item: {
+              id: createItemId(CONTEXT_ITEM_PREFIX),
+              type: 'message',
+              role: turn.role,
+              content: [
+                turn.role === 'user'
+                  ? { type: 'input_text', text: turn.text }
+                  : { type: 'text', text: turn.text },
+              ],
+            },
+          });
         });
+      }
+    };
+
+    // Remember recent transcript turns for session resumption
+    const rememberTurn = (turn: ContextTurn) => {
+      // Turns from a replayed log are not this session's context
+      if (!turn.text.trim() || stopReplayRef.current) {
+        return;
+      }
+      recentContextRef.current = [...recentContextRef.current, turn].slice(-MAX_CONTEXT_TURNS);
+    };
 
-        // Monitor connection state
-        peerConnection.onconnectionstatechange = () => {
-          setConnectionState(peerConnection.connectionState);
+    // Update hook state for a server event, then notify subscribers.
+    // Live transport messages and replayed logs both go through here.
+    const handleServerEvent = (data: ServerEvent) => {
+      console.log('Received event:', data.type, data);
+      const isReplayed = !!stopReplayRef.current;
 
-          if (peerConnection.connectionState === 'connected') {
-            console.log('WebRTC connection established');
-          } else if (peerConnection.connectionState === 'failed') {
-            console.error('WebRTC connection failed');
+      // Keep recent text turns for replay into a resumed session
+      if (data.type === 'conversation.item.input_audio_transcription.completed') {
+        rememberTurn({ role: 'user', text: data.transcript });
+      } else if (data.type === 'response.audio_transcript.done') {
+        rememberTurn({ role: 'assistant', text: data.transcript });
+      } else if (data.type === 'response.text.done') {
+        rememberTurn({ role: 'assistant', text: data.text });
+      }
+
+      // Log ALL events to find missing audio data
+      if (data.type.includes('audio')) {
+        console.log('🎵 AUDIO EVENT:', data.type, JSON.stringify(data, null, 2));
+      }
+
+      switch (data.type) {
+        // Flush queued audio when output is cleared or response cancelled
+        case 'output_audio_buffer.cleared':
+        case 'response.cancelled':
+          console.log('🗑️ Flushing audio');
+          flushAudio();
+          activeResponseRef.current = null; // Clear active response on cancel
+          setIsResponding(false);
+          break;
+
+        // Log errors with full details
+        case 'error':
+          console.error('OpenAI Realtime API Error:', data);
+          if (
+            pendingSessionRef.current &&
+            data.error.event_id === pendingSessionRef.current.eventId
+          ) {
+            pendingSessionRef.current = null;
+            setSessionStatus('failed');
           }
-        };
-
-        // Handle incoming audio track
-        peerConnection.ontrack = (event) => {
-          const [remoteStream] = event.streams;
-          console.log('Remote track received:', event.track.kind, remoteStream);
-
-          // Create or reuse audio element
-          if (!audioElementRef.current) {
-            const audio = new Audio();
-            audio.autoplay = false; // Don't autoplay - requires user interaction
-            audio.volume = 1.0;
-            audioElementRef.current = audio;
-            console.log('Audio element created (autoplay disabled until user interaction)');
-            
-            // Add to DOM to ensure playback (some browsers require this)
-            document.body.appendChild(audio);
-            audio.style.display = 'none';
+          break;
+
+        // Log response lifecycle events
+        case 'response.created':
+          console.log('🎬 RESPONSE CREATED:', JSON.stringify(data, null, 2));
+          // Track active response
+          activeResponseRef.current = data.response.id;
+          setIsResponding(true);
+
+          // Server VAD creates responses on its own - stop them once over budget
+          if (responsesBlockedRef.current) {
+            console.warn('🚫 Usage budget exceeded, cancelling response');
+            send({ type: 'response.cancel', response_id: data.response.id });
           }
+          break;
 
-          audioElementRef.current.srcObject = remoteStream;
-          console.log('Remote audio stream connected to audio element (ready to play after user interaction)');
-          
-          // Log audio element state
-          audioElementRef.current.onplay = () => console.log('🔊 Audio element PLAYING');
-          audioElementRef.current.onpause = () => console.log('⏸️ Audio element PAUSED');
-          audioElementRef.current.onerror = (e) => console.error('❌ Audio element error:', e);
-          audioElementRef.current.onended = () => console.log('🏁 Audio element ENDED');
-        };
-
-        // Add a transceiver for audio (required by OpenAI)
-        // This creates a placeholder that we'll use later with replaceTrack
-        const audioTransceiver = peerConnection.addTransceiver('audio', {
-          direction: 'sendrecv',
-        });
-        console.log('Audio transceiver added:', audioTransceiver);
+        case 'response.output_item.added':
+          console.log('➕ OUTPUT ITEM ADDED:', JSON.stringify(data, null, 2));
+          break;
 
-        // Create data channel for JSON events
-        const channel = peerConnection.createDataChannel('oai-events', {
-          ordered: true,
-        });
+        case 'response.content_part.added':
+          console.log('📝 CONTENT PART ADDED:', JSON.stringify(data, null, 2));
+          if (data.part.type === 'audio') {
+            playbackItemRef.current = {
+              itemId: data.item_id,
+              contentIndex: data.content_index,
+              startMs: null,
+              durationMs: 0,
+              isComplete: false,
+            };
+          }
+          break;
 
-        channel.onopen = () => {
-          console.log('DataChannel opened');
-          setIsConnected(true);
+        // The user started talking over the assistant
+        case 'input_audio_buffer.speech_started':
+          interruptPlayback();
+          break;
 
-          // Configure session on connection
-          const sessionConfig = {
-            type: 'session.update',
-            session: {
-              modalities: ['audio', 'text'], // Order matters: audio first for voice responses
-              instructions:
-                'You are a helpful AI assistant. Be concise and friendly. When shown an image, describe the key elements first.',
-              voice: 'alloy',
-              input_audio_format: 'pcm16',
-              output_audio_format: 'pcm16',
-              input_audio_transcription: {
-                model: 'whisper-1',
-              },
-              turn_detection: {
-                type: 'server_vad',
-                threshold: 0.5,
-                prefix_padding_ms: 300,
-                silence_duration_ms: 500,
-                create_response: true,
-              },
-              temperature: 0.8,
-            },
-          };
+        // WebRTC: the server reports when the remote track starts and stops playing
+        case 'output_audio_buffer.started':
+          if (playbackItemRef.current && !playsAudioDeltas) {
+            playbackItemRef.current.startMs = Date.now();
+          }
+          break;
 
-          console.log('Sending session config:', sessionConfig);
-          channel.send(JSON.stringify(sessionConfig));
-        };
+        case 'output_audio_buffer.stopped':
+          if (!playsAudioDeltas) {
+            playbackItemRef.current = null; // Played in full
+          }
+          break;
 
-        channel.onclose = () => {
-          console.log('DataChannel closed');
-          setIsConnected(false);
-        };
+        case 'response.audio.delta':
+          console.log('🔊 AUDIO DELTA received, length:', data.delta.length);
+          // WebRTC already plays this audio on the remote track
+          if (data.delta && playsAudioDeltas) {
+            // The delta starts playing once everything queued before it has played
+            const player = getPlayer();
+            const startMs = player.getPlayedMs() + player.getQueuedMs();
+            const durationMs = playAudioDelta(data.delta);
 
-        channel.onmessage = (event) => {
-          try {
-            const data = JSON.parse(event.data) as RealtimeEvent;
-            console.log('Received event:', data.type, data);
-            
-            // Log ALL events to find missing audio data
-            if (data.type.includes('audio')) {
-              console.log('🎵 AUDIO EVENT:', data.type, JSON.stringify(data, null, 2));
-            }
-            
-            // Clear audio queue when output is cleared or response cancelled
-            if (data.type === 'output_audio_buffer.cleared' || data.type === 'response.cancelled') {
-              console.log('🗑️ Clearing audio queue');
-              audioQueueRef.current = [];
-              isPlayingRef.current = false;
-              activeResponseRef.current = null; // Clear active response on cancel
-            }
-            
-            // Log errors with full details
-            if (data.type === 'error') {
-              console.error('OpenAI Realtime API Error:', data);
-            }
-            
-            // Log response lifecycle events
-            if (data.type === 'response.created') {
-              console.log('🎬 RESPONSE CREATED:', JSON.stringify(data, null, 2));
-              // Track active response
-              const responseId = (data as { response?: { id?: string } }).response?.id;
-              if (responseId) {
-                activeResponseRef.current = responseId;
-              }
-            }
-            
-            if (data.type === 'response.output_item.added') {
-              console.log('➕ OUTPUT ITEM ADDED:', JSON.stringify(data, null, 2));
-            }
-            
-            if (data.type === 'response.content_part.added') {
-              console.log('📝 CONTENT PART ADDED:', JSON.stringify(data, null, 2));
-            }
-            
-            if (data.type === 'response.audio.delta') {
-              const delta = (data as Record<string, unknown>).delta as string;
-              console.log('🔊 AUDIO DELTA received, length:', delta?.length || 0);
-              
-              // Play the audio delta
-              if (delta) {
-                playAudioDelta(delta);
-              }
-            }
-            
-            // Also handle buffered audio from output_audio_buffer
-            if (data.type === 'output_audio_buffer.audio_added') {
-              const delta = (data as Record<string, unknown>).audio as string;
-              console.log('🔊 OUTPUT AUDIO BUFFER received, length:', delta?.length || 0);
-              
-              // Play the buffered audio
-              if (delta) {
-                playAudioDelta(delta);
-              }
-            }
-            
-            if (data.type === 'response.text.delta') {
-              console.log('📄 TEXT DELTA:', (data as Record<string, unknown>).delta);
+            const item = playbackItemRef.current;
+            if (item?.itemId === data.item_id) {
+              item.startMs ??= startMs;
+              item.durationMs += durationMs;
             }
-            
-            // Log response.done with full details to debug audio output
-            if (data.type === 'response.done') {
-              console.log('✅ RESPONSE DONE DETAILS:', JSON.stringify(data, null, 2));
-              
-              // Clear active response
-              activeResponseRef.current = null;
-              
-              const resp = (data as Record<string, unknown>).response as Record<string, unknown>;
-              if (resp.status === 'failed') {
-                const statusDetails = resp.status_details as Record<string, unknown>;
-                console.error('❌ RESPONSE FAILED:', statusDetails?.error);
-              } else {
-                const output = resp.output as unknown[];
-                console.log('Response output items:', output?.length || 0);
-                console.log('Response modalities:', resp.modalities);
-              }
-            }
-            
-            // Log session.updated to see actual config
-            if (data.type === 'session.updated') {
-              console.log('⚙️ SESSION CONFIG:', JSON.stringify(data, null, 2));
-            }
-            
-            // Log conversation item creation
-            if (data.type === 'conversation.item.created') {
-              const item = (data as Record<string, unknown>).item as Record<string, unknown>;
-              const content = item.content as Array<Record<string, unknown>>;
-              console.log('💬 CONVERSATION ITEM CREATED:', {
-                id: item.id,
-                type: item.type,
-                role: item.role,
-                status: item.status,
-                content: content?.map((c) => ({
-                  type: c.type,
-                  hasTranscript: !!c.transcript,
-                  hasAudio: !!c.audio,
-                  hasText: !!c.text
-                }))
-              });
+          }
+          break;
+
+        // Also handle buffered audio from output_audio_buffer
+        case 'output_audio_buffer.audio_added':
+          console.log('🔊 OUTPUT AUDIO BUFFER received, length:', data.audio.length);
+          if (data.audio && playsAudioDeltas) {
+            playAudioDelta(data.audio);
+          }
+          break;
+
+        // Play out the tail even if it is shorter than the jitter buffer
+        case 'response.audio.done':
+          playerRef.current?.end();
+          if (playbackItemRef.current?.itemId === data.item_id) {
+            playbackItemRef.current.isComplete = true;
+          }
+          break;
+
+        case 'response.text.delta':
+          console.log('📄 TEXT DELTA:', data.delta);
+          break;
+
+        // Log response.done with full details to debug audio output
+        case 'response.done': {
+          console.log('✅ RESPONSE DONE DETAILS:', JSON.stringify(data, null, 2));
+
+          // Clear active response
+          activeResponseRef.current = null;
+          setIsResponding(false);
+
+          const resp = data.response;
+          // Replayed usage is only metered when there is no live session to budget
+          if (!isReplayed || connectionMode === 'replay') {
+            setUsage((prev) => addResponseUsage(prev, resp, pricesRef.current));
+          }
+
+          // Audio of a cancelled response must not keep playing
+          if (resp.status === 'cancelled') {
+            flushAudio();
+          }
+
+          if (resp.status === 'failed') {
+            console.error('❌ RESPONSE FAILED:', resp.status_details?.error);
+          } else {
+            console.log('Response output items:', resp.output?.length || 0);
+            console.log('Response modalities:', resp.modalities);
+          }
+          break;
+        }
+
+        // Log session.updated to see actual config
+        case 'session.updated': {
+          console.log('⚙️ SESSION CONFIG:', JSON.stringify(data, null, 2));
+          setServerSession(data.session);
+
+          const pending = pendingSessionRef.current;
+          if (pending) {
+            pendingSessionRef.current = null;
+            const confirmed = sessionMatchesPatch(pending.patch, data.session);
+            if (!confirmed) {
+              console.warn('Session update not fully applied:', pending.patch, data.session);
             }
-            
-            emit(data.type, data);
-          } catch (error) {
-            console.error('Failed to parse DataChannel message:', error);
+            setSessionStatus(confirmed ? 'confirmed' : 'failed');
           }
-        };
+          break;
+        }
 
-        channel.onerror = (error) => {
-          console.error('DataChannel error:', error);
-        };
+        // Log conversation item creation
+        case 'conversation.item.created': {
+          const item = data.item;
+          console.log('💬 CONVERSATION ITEM CREATED:', {
+            id: item.id,
+            type: item.type,
+            role: item.type === 'message' ? item.role : undefined,
+            status: item.type === 'function_call_output' ? undefined : item.status,
+            content:
+              item.type === 'message'
+                ? item.content.map((c) => ({
+                    type: c.type,
+                    hasTranscript: 'transcript' in c && !!c.transcript,
+                    hasAudio: 'audio' in c && !!c.audio,
+                    hasText: 'text' in c && !!c.text,
+                  }))
+                : undefined,
+          });
+          break;
+        }
+      }
 
-        // Create SDP offer
-        const offer = await peerConnection.createOffer();
-        await peerConnection.setLocalDescription(offer);
+      emit(data);
+    };
 
-        // Exchange SDP with OpenAI via our server
-        const response = await fetch('/api/realtime/session', {
-          method: 'POST',
-          headers: { 'Content-Type': 'text/plain' },
-          body: offer.sdp,
-        });
+    handleServerEventRef.current = handleServerEvent;
 
-        if (!response.ok) {
-          throw new Error(`Session creation failed: ${response.status}`);
+    // Give the assistant's remote track (WebRTC) a hidden audio element
+    const attachRemoteStream = (remoteStream: MediaStream) => {
+      // Create or reuse audio element
+      if (!audioElementRef.current) {
+        const audio = new Audio();
+        audio.autoplay = false; // Don't autoplay - requires user interaction
+        audio.volume = 1.0;
+        audioElementRef.current = audio;
+        console.log('Audio element created (autoplay disabled until user interaction)');
+        
+        // Add to DOM to ensure playback (some browsers require this)
+        document.body.appendChild(audio);
+        audio.style.display = 'none';
+
+        if (outputDeviceIdRef.current) {
+          audio
+            .setSinkId(outputDeviceIdRef.current)
+            .catch((err) => console.warn('Could not select speaker:', err));
         }
+      }
 
-        const answerSDP = await response.text();
-        await peerConnection.setRemoteDescription({
-          type: 'answer',
-          sdp: answerSDP,
-        });
+      audioElementRef.current.srcObject = remoteStream;
+      console.log('Remote audio stream connected to audio element (ready to play after user interaction)');
+      
+      // Log audio element state
+      audioElementRef.current.onplay = () => console.log('🔊 Audio element PLAYING');
+      audioElementRef.current.onpause = () => console.log('⏸️ Audio element PAUSED');
+      audioElementRef.current.onerror = (e) => console.error('❌ Audio element error:', e);
+      audioElementRef.current.onended = () => console.log('🏁 Audio element ENDED');
+    };
 
-        setPc(peerConnection);
-        setDataChannel(channel);
+    // Secrets are short-lived - mint a new one unless the cached one has time left
+    const getClientSecret = async () => {
+      if (!isClientSecretFresh(clientSecretRef.current)) {
+        console.log('🔑 Requesting new client secret');
+        clientSecretRef.current = await fetchClientSecret(sessionConfigRef.current);
+      }
+      return clientSecretRef.current!.value;
+    };
 
-        console.log('WebRTC connection initialized');
+    // WebRTC: exchange the SDP offer via our server, directly with a client secret,
+    // or with the in-page mock server
+    const answerOffer = async (offerSdp: string) => {
+      if (connectionMode === 'mock') {
+        // Loaded on demand so the mock server stays out of the normal bundle
+        const { answerWithMockServer } = await import('@/lib/mock/mockPeer');
+        return answerWithMockServer(offerSdp);
+      }
+      const clientSecret = connectionMode === 'direct' ? await getClientSecret() : undefined;
+      return exchangeSdp(offerSdp, clientSecret);
+    };
+
+    // WebSocket: the same three options - our relay, OpenAI directly, or the mock server
+    const openSocket: OpenSocket = async (handlers) => {
+      if (connectionMode === 'mock') {
+        const { openMockSocket } = await import('@/lib/mock/mockSocket');
+        return openMockSocket(handlers);
+      }
+      if (connectionMode === 'direct') {
+        const clientSecret = await getClientSecret();
+        return openBrowserSocket(REALTIME_WS_URL, getDirectSocketProtocols(clientSecret))(handlers);
+      }
+      return openBrowserSocket(getRelayUrl())(handlers);
+    };
+
+    const initConnection = async () => {
+      const callbacks: TransportCallbacks = {
+        onOpen: () => {
+          console.log(`Realtime ${transport.kind} transport open`);
+          const isResumed = reconnectAttemptRef.current > 0;
+          stopReplay(); // Reconnected while a log was replaying
+
+          reconnectAttemptRef.current = 0;
+          setReconnectAttempt(0);
+          setAccessError(null);
+          setIsConnected(true);
+
+          // Configure session on connection
+          configureSession(isResumed);
+        },
+        onMessage: (message) => {
+          let data: ServerEvent;
+          try {
+            data = parseServerEvent(message);
+          } catch (error) {
+            console.error('Failed to parse server message:', error);
+            return;
+          }
+
+          handleServerEvent(data);
+        },
+        onClose: (reason) => {
+          setIsConnected(false);
+          scheduleReconnect(transport, reason);
+        },
+        onStateChange: (state) => {
+          if (transportRef.current === transport) {
+            setConnectionState(state);
+          }
+        },
+        onRemoteStream: attachRemoteStream,
+      };
+
+      const transport =
+        transportKind === 'websocket'
+          ? createWebSocketTransport({ ...callbacks, openSocket })
+          : createWebRtcTransport({ ...callbacks, answerOffer });
+      transportRef.current = transport;
+
+      try {
+        await transport.connect();
+
+        // Reattach a live mic track when resuming after a reconnect
+        const micTrack = localStreamRef.current?.getAudioTracks()[0];
+        if (micTrack?.readyState === 'live' && transportRef.current === transport) {
+          console.log('Reattaching microphone track');
+          await transport.setMicTrack(micTrack);
+          micAttachedRef.current = true;
+        }
       } catch (error) {
-        console.error('Failed to initialize WebRTC:', error);
+        console.error('Failed to connect:', error);
+        const reason = error instanceof Error ? error.message : 'Failed to connect';
+
+        if (error instanceof RealtimeRequestError && error.source === 'openai' && error.status === 401) {
+          clientSecretRef.current = null; // Revoked or expired early - mint a new one next time
+        }
+
+        if (error instanceof RealtimeRequestError && error.source === 'app') {
+          if (error.status === 401 || error.status === 429) {
+            setAccessError({ status: error.status, message: error.message });
+          }
+          // Retrying won't help until the user signs in
+          if (error.status === 401) {
+            scheduleReconnect(transport, reason, { retry: false });
+            return;
+          }
+          scheduleReconnect(transport, reason, { delayMs: error.retryAfterMs });
+          return;
+        }
+
+        scheduleReconnect(transport, reason);
+      }
+    };
+
+    // Manual reconnect: drop whatever is left and start a fresh attempt cycle
+    connectRef.current = () => {
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
       }
+      closeConnection();
+      reconnectAttemptRef.current = 0;
+      setReconnectAttempt(0);
+      setLastDisconnectReason(null);
+      initConnection();
     };
 
+    // Replay mode never connects - events only come from recorded logs
+    if (connectionMode === 'replay') {
+      console.log('Replay mode: not connecting to OpenAI');
+      return cleanup;
+    }
+
     initConnection();
 
     // Cleanup on unmount
@@ -550,14 +1204,36 @@ export function useRealtime(): UseRealtimeResult {
   return {
     isConnected,
     connectionState,
+    reconnectAttempt,
+    lastDisconnectReason,
+    accessError,
+    reconnect,
+    sessionStatus,
+    serverSession,
     send,
     on,
     off,
+    onAny,
+    offAny,
+    getMediaStreams,
     startMic,
     stopMic,
+    startPushToTalk,
+    endPushToTalk,
+    isTalking: talkStartedAt !== null,
+    talkStartedAt,
     enableAudio,
     cancelResponse,
+    isResponding,
     isMicActive,
+    usage,
+    budgetStatus,
+    resetUsage,
+    connectionMode,
+    transport: transportKind,
+    replayLog,
+    stopReplay,
+    isReplaying,
     cleanup,
   };
 }
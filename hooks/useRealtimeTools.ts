@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { UseRealtimeResult } from '@/hooks/useRealtime';
+import type { ServerEventOf } from '@/lib/realtimeEvents';
+import { runTool, type RealtimeTool } from '@/lib/tools';
+
+interface UseRealtimeToolsOptions {
+  tools: RealtimeTool[];
+  on: UseRealtimeResult['on'];
+  off: UseRealtimeResult['off'];
+  send: UseRealtimeResult['send'];
+}
+
+/**
+ * Execute function calls from the model: accumulate streamed arguments,
+ * run the matching tool, return a function_call_output item and, once the
+ * response that made the calls is done, ask the model to continue.
+ */
+export function useRealtimeTools({ tools, on, off, send }: UseRealtimeToolsOptions): void {
+  const toolsRef = useRef(tools);
+
+  useEffect(() => {
+    toolsRef.current = tools;
+  }, [tools]);
+
+  useEffect(() => {
+    const callNames = new Map<string, string>(); // call_id -> tool name
+    const callArguments = new Map<string, string>(); // call_id -> streamed arguments
+    const pendingCalls = new Map<string, Promise<void>[]>(); // response_id -> running calls
+
+    const handleItemAdded = (event: ServerEventOf<'response.output_item.added'>) => {
+      if (event.item.type === 'function_call') {
+        callNames.set(event.item.call_id, event.item.name);
+        callArguments.set(event.item.call_id, '');
+      }
+    };
+
+    const handleArgumentsDelta = (event: ServerEventOf<'response.function_call_arguments.delta'>) => {
+      callArguments.set(event.call_id, (callArguments.get(event.call_id) ?? '') + event.delta);
+    };
+
+    const handleArgumentsDone = (event: ServerEventOf<'response.function_call_arguments.done'>) => {
+      const name = event.name ?? callNames.get(event.call_id);
+      const rawArguments = event.arguments || callArguments.get(event.call_id) || '';
+      callNames.delete(event.call_id);
+      callArguments.delete(event.call_id);
+
+      if (!name) {
+        console.error('Function call without a tool name:', event.call_id);
+        return;
+      }
+
+      console.log(`🛠️ Running tool ${name}`, rawArguments);
+      const call = runTool(toolsRef.current, name, rawArguments).then((output) => {
+        console.log(`🛠️ Tool ${name} returned`, output);
+        send({
+          type: 'conversation.item.create',
+          item: {
+            type: 'function_call_output',
+            call_id: event.call_id,
+            output,
+          },
+        });
+      });
+
+      pendingCalls.set(event.response_id, [...(pendingCalls.get(event.response_id) ?? []), call]);
+    };
+
+    // A response can make several calls - continue once all of them have answered
+    const handleResponseDone = async (event: ServerEventOf<'response.done'>) => {
+      const calls = pendingCalls.get(event.response.id);
+      if (!calls) {
+        return;
+      }
+      pendingCalls.delete(event.response.id);
+
+      await Promise.all(calls);
+      if (event.response.status === 'completed') {
+        send({
+          type: 'response.create',
+          response: {
+            modalities: ['audio', 'text'],
+            metadata: { kind: 'tool' },
+          },
+        });
+      }
+    };
+
+    on('response.output_item.added', handleItemAdded);
+    on('response.function_call_arguments.delta', handleArgumentsDelta);
+    on('response.function_call_arguments.done', handleArgumentsDone);
+    on('response.done', handleResponseDone);
+
+    return () => {
+      off('response.output_item.added', handleItemAdded);
+      off('response.function_call_arguments.delta', handleArgumentsDelta);
+      off('response.function_call_arguments.done', handleArgumentsDone);
+      off('response.done', handleResponseDone);
+    };
+  }, [on, off, send]);
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { computeFrameSignature, frameDifference } from '@/lib/frameDiff';
+import { videoFrameToDataUrl, type CropRegion } from '@/lib/screenshot';
+
+export interface ScreenAnalysisConfig {
+  intervalMs: number; // How often to sample the stream
+  changeThreshold: number; // Fraction of the frame (0-1) that must change
+  maxImagesPerMinute: number;
+}
+
+export const DEFAULT_SCREEN_ANALYSIS_CONFIG: ScreenAnalysisConfig = {
+  intervalMs: 2000,
+  changeThreshold: 0.1,
+  maxImagesPerMinute: 6,
+};
+
+interface UseScreenAnalysisOptions {
+  stream: MediaStream | null;
+  enabled: boolean;
+  paused?: boolean; // e.g. while the assistant is still responding
+  region?: CropRegion | null; // Only this part of the screen is compared and sent
+  config: ScreenAnalysisConfig;
+  onFrame: (dataUrl: string) => void;
+}
+
+interface UseScreenAnalysisResult {
+  lastDifference: number | null; // Difference of the latest sample vs the last sent frame
+  sentInLastMinute: number;
+}
+
+/**
+ * Periodically sample a screen share and report frames that changed meaningfully
+ * since the last one sent, within a per-minute budget.
+ */
+export function useScreenAnalysis({
+  stream,
+  enabled,
+  paused = false,
+  region = null,
+  config,
+  onFrame,
+}: UseScreenAnalysisOptions): UseScreenAnalysisResult {
+  const [lastDifference, setLastDifference] = useState<number | null>(null);
+  const [sentInLastMinute, setSentInLastMinute] = useState(0);
+
+  const onFrameRef = useRef(onFrame);
+  const pausedRef = useRef(paused);
+  const lastSentSignatureRef = useRef<Uint8ClampedArray | null>(null);
+  const sentTimestampsRef = useRef<number[]>([]);
+
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+    pausedRef.current = paused;
+  }, [onFrame, paused]);
+
+  // A new stream or region starts from scratch
+  useEffect(() => {
+    lastSentSignatureRef.current = null;
+  }, [stream, region]);
+
+  useEffect(() => {
+    if (!enabled || !stream) {
+      return;
+    }
+
+    // One hidden video element for the lifetime of the sampling loop
+    const video = document.createElement('video');
+    video.srcObject = stream;
+    video.muted = true;
+    video.play().catch((err) => console.warn('Screen analysis video failed to play:', err));
+
+    const sample = () => {
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+        return;
+      }
+
+      const now = Date.now();
+      sentTimestampsRef.current = sentTimestampsRef.current.filter((t) => now - t < 60000);
+      setSentInLastMinute(sentTimestampsRef.current.length);
+
+      try {
+        const signature = computeFrameSignature(video, region);
+        const difference = lastSentSignatureRef.current
+          ? frameDifference(lastSentSignatureRef.current, signature)
+          : 1;
+        setLastDifference(difference);
+
+        if (difference < config.changeThreshold) {
+          return;
+        }
+        if (pausedRef.current) {
+          return; // Try again next tick - the frame still counts as changed
+        }
+        if (sentTimestampsRef.current.length >= config.maxImagesPerMinute) {
+          console.log('Screen analysis rate limit reached, skipping frame');
+          return;
+        }
+
+        console.log(`🖥️ Scene changed (${(difference * 100).toFixed(0)}%), sending frame`);
+        lastSentSignatureRef.current = signature;
+        sentTimestampsRef.current.push(now);
+        setSentInLastMinute(sentTimestampsRef.current.length);
+        onFrameRef.current(videoFrameToDataUrl(video, region));
+      } catch (error) {
+        console.error('Screen analysis sample failed:', error);
+      }
+    };
+
+    const timer = setInterval(sample, config.intervalMs);
+
+    return () => {
+      clearInterval(timer);
+      video.pause();
+      video.srcObject = null;
+      video.remove();
+    };
+  }, [enabled, stream, region, config.intervalMs, config.changeThreshold, config.maxImagesPerMinute]);
+
+  return { lastDifference, sentInLastMinute };
+}
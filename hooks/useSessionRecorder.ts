@@ -0,0 +1,169 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { UseRealtimeResult } from '@/hooks/useRealtime';
+import type { AnyEventHandler } from '@/lib/realtimeEvents';
+import {
+  downloadBlob,
+  encodeWav,
+  floatToPcm16,
+  toJsonl,
+  toMarkdown,
+  type RecordedEvent,
+} from '@/lib/recording';
+
+interface UseSessionRecorderOptions {
+  onAny: UseRealtimeResult['onAny'];
+  offAny: UseRealtimeResult['offAny'];
+  getMediaStreams: UseRealtimeResult['getMediaStreams'];
+  // Streams are re-read whenever these change (mic started, reconnected)
+  isMicActive: boolean;
+  isConnected: boolean;
+}
+
+interface UseSessionRecorderResult {
+  isRecording: boolean;
+  eventCount: number;
+  audioSeconds: number;
+  start: () => void;
+  stop: () => void;
+  exportJsonl: () => void;
+  exportMarkdown: () => void;
+  exportWav: () => void;
+}
+
+// Speech doesn't need more, and it keeps an hour of audio around 170MB
+const RECORDING_SAMPLE_RATE = 24000;
+const PROCESSOR_BUFFER_SIZE = 4096;
+
+function fileStamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * Record DataChannel events plus a mono mix of mic and assistant audio,
+ * and export them as JSONL, Markdown or WAV
+ */
+export function useSessionRecorder({
+  onAny,
+  offAny,
+  getMediaStreams,
+  isMicActive,
+  isConnected,
+}: UseSessionRecorderOptions): UseSessionRecorderResult {
+  const [isRecording, setIsRecording] = useState(false);
+  const [eventCount, setEventCount] = useState(0);
+  const [audioSeconds, setAudioSeconds] = useState(0);
+
+  const eventsRef = useRef<RecordedEvent[]>([]);
+  const audioChunksRef = useRef<Int16Array[]>([]);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const processorRef = useRef<ScriptProcessorNode | null>(null);
+
+  useEffect(() => {
+    if (!isRecording) {
+      return;
+    }
+
+    const handleEvent: AnyEventHandler = (event, direction) => {
+      eventsRef.current.push({ timestamp: Date.now(), direction, event });
+      setEventCount(eventsRef.current.length);
+    };
+
+    onAny(handleEvent);
+    return () => offAny(handleEvent);
+  }, [isRecording, onAny, offAny]);
+
+  // Feed both sides into the processor; connecting several sources to one
+  // node sums them, which gives us the mix for free
+  useEffect(() => {
+    const audioContext = audioContextRef.current;
+    const processor = processorRef.current;
+    if (!isRecording || !audioContext || !processor) {
+      return;
+    }
+
+    const { mic, remote } = getMediaStreams();
+    const sources = [mic, remote]
+      .filter((stream): stream is MediaStream => !!stream && stream.getAudioTracks().length > 0)
+      .map((stream) => {
+        const source = audioContext.createMediaStreamSource(stream);
+        source.connect(processor);
+        return source;
+      });
+
+    return () => sources.forEach((source) => source.disconnect());
+  }, [isRecording, isMicActive, isConnected, getMediaStreams]);
+
+  const start = useCallback(() => {
+    eventsRef.current = [];
+    audioChunksRef.current = [];
+    setEventCount(0);
+    setAudioSeconds(0);
+
+    const audioContext = new AudioContext({ sampleRate: RECORDING_SAMPLE_RATE });
+    const processor = audioContext.createScriptProcessor(PROCESSOR_BUFFER_SIZE, 1, 1);
+    processor.onaudioprocess = (e) => {
+      audioChunksRef.current.push(floatToPcm16(e.inputBuffer.getChannelData(0)));
+      setAudioSeconds(
+        (audioChunksRef.current.length * PROCESSOR_BUFFER_SIZE) / RECORDING_SAMPLE_RATE
+      );
+    };
+    // The processor only runs while connected to the output (it writes silence)
+    processor.connect(audioContext.destination);
+
+    audioContextRef.current = audioContext;
+    processorRef.current = processor;
+    setIsRecording(true);
+    console.log('⏺️ Recording started');
+  }, []);
+
+  const stop = useCallback(() => {
+    processorRef.current?.disconnect();
+    processorRef.current = null;
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    setIsRecording(false);
+    console.log(`⏹️ Recording stopped (${eventsRef.current.length} events)`);
+  }, []);
+
+  // Release the audio graph if we unmount mid-recording
+  useEffect(() => {
+    return () => {
+      processorRef.current?.disconnect();
+      audioContextRef.current?.close();
+    };
+  }, []);
+
+  const exportJsonl = useCallback(() => {
+    downloadBlob(
+      new Blob([toJsonl(eventsRef.current)], { type: 'application/x-ndjson' }),
+      `realtime-session-${fileStamp()}.jsonl`
+    );
+  }, []);
+
+  const exportMarkdown = useCallback(() => {
+    downloadBlob(
+      new Blob([toMarkdown(eventsRef.current)], { type: 'text/markdown' }),
+      `realtime-session-${fileStamp()}.md`
+    );
+  }, []);
+
+  const exportWav = useCallback(() => {
+    downloadBlob(
+      encodeWav(audioChunksRef.current, RECORDING_SAMPLE_RATE),
+      `realtime-session-${fileStamp()}.wav`
+    );
+  }, []);
+
+  return {
+    isRecording,
+    eventCount,
+    audioSeconds,
+    start,
+    stop,
+    exportJsonl,
+    exportMarkdown,
+    exportWav,
+  };
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import {
+  getSessionSettings,
+  getServerSessionSettings,
+  saveSessionSettings,
+  subscribeSessionSettings,
+  type SessionSettings,
+} from '@/lib/sessionSettings';
+
+/**
+ * Session settings persisted in localStorage, shared across components
+ */
+export function useSessionSettings(): [SessionSettings, (settings: SessionSettings) => void] {
+  const settings = useSyncExternalStore(
+    subscribeSessionSettings,
+    getSessionSettings,
+    getServerSessionSettings
+  );
+
+  return [settings, saveSessionSettings];
+}
@@ -0,0 +1,123 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+/**
+ * Server-side auth for the API routes, selected by API_AUTH_MODE:
+ * - none (default): open, rate limited per IP
+ * - bearer: `Authorization: Bearer <API_AUTH_TOKEN>` (scripts, reverse proxies)
+ * - cookie: signed cookie set by POSTing API_AUTH_TOKEN to /api/auth/login
+ * - basic: HTTP basic auth against API_AUTH_USERS ("alice:secret,bob:hunter2")
+ */
+export type AuthMode = 'none' | 'bearer' | 'cookie' | 'basic';
+
+export interface AuthStrategy {
+  // Returns the caller's identity, or null when the request is not authorized.
+  // An empty identity means "authorized, but anonymous" (rate limited by IP).
+  authenticate: (request: NextRequest) => string | null;
+  challenge?: string; // WWW-Authenticate header sent with 401s
+}
+
+export const AUTH_COOKIE_NAME = 'realtime_auth';
+export const AUTH_COOKIE_MAX_AGE_S = 7 * 24 * 60 * 60;
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+// "user:password" - passwords may contain colons
+function splitCredentials(value: string): [string, string | undefined] {
+  const index = value.indexOf(':');
+  return index === -1 ? [value, undefined] : [value.slice(0, index), value.slice(index + 1)];
+}
+
+function getSecret(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set when API_AUTH_MODE is ${process.env.API_AUTH_MODE}`);
+  }
+  return value;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSecret('API_AUTH_SECRET')).update(payload).digest('base64url');
+}
+
+/**
+ * Cookie value for a signed-in user: `<user>.<expiresAt>.<signature>`
+ */
+export function createAuthCookieValue(user: string): string {
+  const encodedUser = Buffer.from(user).toString('base64url');
+  const payload = `${encodedUser}.${Date.now() + AUTH_COOKIE_MAX_AGE_S * 1000}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Check a login token against API_AUTH_TOKEN and return the identity it signs
+ * in as (null if invalid). The identity comes from the token, not the caller,
+ * so holders of one token share one rate limit bucket.
+ */
+export function getLoginIdentity(token: string): string | null {
+  if (!safeEqual(token, getSecret('API_AUTH_TOKEN'))) {
+    return null;
+  }
+  return `token-${createHash('sha256').update(token).digest('hex').slice(0, 12)}`;
+}
+
+const AUTH_STRATEGIES: Record<AuthMode, AuthStrategy> = {
+  none: {
+    authenticate: () => '',
+  },
+  bearer: {
+    authenticate: (request) => {
+      const header = request.headers.get('authorization') ?? '';
+      const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+      // One shared token, so callers are told apart by IP
+      return token && safeEqual(token, getSecret('API_AUTH_TOKEN')) ? '' : null;
+    },
+    challenge: 'Bearer',
+  },
+  cookie: {
+    authenticate: (request) => {
+      const value = request.cookies.get(AUTH_COOKIE_NAME)?.value;
+      const [user, expiresAt, signature] = value?.split('.') ?? [];
+      if (!user || !expiresAt || !signature) {
+        return null;
+      }
+      if (!safeEqual(signature, sign(`${user}.${expiresAt}`)) || Number(expiresAt) < Date.now()) {
+        return null;
+      }
+      return Buffer.from(user, 'base64url').toString();
+    },
+  },
+  basic: {
+    authenticate: (request) => {
+      const header = request.headers.get('authorization') ?? '';
+      if (!header.startsWith('Basic ')) {
+        return null;
+      }
+      const [user, password] = splitCredentials(Buffer.from(header.slice(6), 'base64').toString());
+      const expected = getSecret('API_AUTH_USERS')
+        .split(',')
+        .map((entry) => splitCredentials(entry.trim()))
+        .find(([name]) => name === user);
+      return expected?.[1] !== undefined && password !== undefined && safeEqual(password, expected[1])
+        ? user
+        : null;
+    },
+    challenge: 'Basic realm="Realtime Image Demo", charset="UTF-8"',
+  },
+};
+
+export function getAuthMode(): AuthMode {
+  const mode = process.env.API_AUTH_MODE ?? 'none';
+  if (!Object.hasOwn(AUTH_STRATEGIES, mode)) {
+    throw new Error(`Unknown API_AUTH_MODE: ${mode}`);
+  }
+  return mode as AuthMode;
+}
+
+export function getAuthStrategy(): AuthStrategy {
+  return AUTH_STRATEGIES[getAuthMode()];
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthStrategy } from '@/lib/apiAuth';
+import type { RateLimiter } from '@/lib/rateLimit';
+
+type RouteHandler = (request: NextRequest) => Promise<Response> | Response;
+
+interface ApiGuardOptions {
+  rateLimiter?: RateLimiter;
+}
+
+// Set by server.ts from the socket address (overwriting anything the client sent)
+export const CLIENT_IP_HEADER = 'x-realtime-client-ip';
+// server.ts sets this before Next starts, so the header above can be trusted
+export const CLIENT_IP_FROM_SERVER_ENV = 'REALTIME_CLIENT_IP_FROM_SERVER';
+
+/**
+ * Rate limit key for anonymous callers. Forwarding headers are client-controlled,
+ * so they are only read behind a trusted proxy (TRUST_PROXY=true or the number
+ * of proxy hops); the proxy appends the address it saw, so count from the right.
+ * Returns null when no address source is configured.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  const trustProxy = process.env.TRUST_PROXY;
+  if (trustProxy && trustProxy !== 'false') {
+    const hops = trustProxy === 'true' ? 1 : Number(trustProxy) || 1;
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',').map((ip) => ip.trim()) ?? [];
+    const ip = forwarded[forwarded.length - hops] || request.headers.get('x-real-ip');
+    if (ip) {
+      return ip;
+    }
+  }
+
+  if (process.env[CLIENT_IP_FROM_SERVER_ENV]) {
+    return request.headers.get(CLIENT_IP_HEADER) || null;
+  }
+  return null;
+}
+
+let hasWarnedNoClientIp = false;
+
+// One shared bucket would let any caller lock everyone out, so without an
+// address anonymous callers are not rate limited at all - say so loudly, once
+function warnNoClientIp() {
+  if (hasWarnedNoClientIp) {
+    return;
+  }
+  hasWarnedNoClientIp = true;
+  console.warn(
+    '⚠️ No client address source: anonymous callers are NOT rate limited. ' +
+      'Run the custom server (npm run dev:ws / start:ws), set TRUST_PROXY behind a proxy, or enable API_AUTH_MODE.'
+  );
+}
+
+/**
+ * Apply the configured auth strategy and an optional rate limiter to a request.
+ * Returns the rejection (JSON `{ error }` with 401, 429 or 500), or null if allowed.
+ */
+export function checkApiAccess(
+  request: NextRequest,
+  { rateLimiter }: ApiGuardOptions = {}
+): Response | null {
+  let user: string | null;
+  let challenge: string | undefined;
+  try {
+    const strategy = getAuthStrategy();
+    user = strategy.authenticate(request);
+    challenge = strategy.challenge;
+  } catch (error) {
+    console.error('Auth configuration error:', error);
+    return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+  }
+
+  if (user === null) {
+    return NextResponse.json(
+      { error: 'Not authorized' },
+      { status: 401, headers: challenge ? { 'WWW-Authenticate': challenge } : undefined }
+    );
+  }
+
+  const ip = user ? null : getClientIp(request);
+  if (rateLimiter && !user && !ip) {
+    warnNoClientIp();
+  } else if (rateLimiter) {
+    const key = user ? `user:${user}` : `ip:${ip}`;
+    const { allowed, retryAfterMs } = rateLimiter.take(key);
+    if (!allowed) {
+      console.warn(`🚦 Rate limited ${key} on ${request.nextUrl.pathname}`);
+      return NextResponse.json(
+        { error: 'Too many sessions, try again shortly', retryAfterMs },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } }
+      );
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Wrap a route handler with checkApiAccess
+ */
+export function withApiGuard(handler: RouteHandler, options: ApiGuardOptions = {}) {
+  return async (request: NextRequest): Promise<Response> => {
+    return checkApiAccess(request, options) ?? handler(request);
+  };
+}
@@ -0,0 +1,76 @@
+import { NO_PARAMETERS, type RealtimeTool } from '@/lib/tools';
+import {
+  PHOTO_COLORS,
+  PHOTO_ORIENTATIONS,
+  PHOTO_TOPICS,
+  type PhotoFilters,
+  type UnsplashPhoto,
+} from '@/lib/photos';
+
+interface AppToolContext {
+  refreshImage: (filters?: PhotoFilters) => Promise<UnsplashPhoto | null>;
+  captureScreen: () => Promise<void>;
+  getPhoto: () => UnsplashPhoto | null;
+}
+
+/**
+ * Built-in tools that let the assistant drive the app itself
+ */
+export function createAppTools({ refreshImage, captureScreen, getPhoto }: AppToolContext): RealtimeTool[] {
+  return [
+    {
+      name: 'refresh_image',
+      description:
+        'Load a new random reference photo in the image pane, optionally of a given subject. Returns the new photo metadata.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'What the photo should show, e.g. "street signs" or "charts"' },
+          topic: {
+            type: 'string',
+            enum: PHOTO_TOPICS.map((topic) => topic.slug),
+            description: 'Broad photo category',
+          },
+          orientation: { type: 'string', enum: [...PHOTO_ORIENTATIONS] },
+          color: { type: 'string', enum: [...PHOTO_COLORS], description: 'Dominant color' },
+        },
+        additionalProperties: false,
+      },
+      handler: async ({ query, topic, orientation, color }) => {
+        const photo = await refreshImage({
+          query: typeof query === 'string' ? query : undefined,
+          topic: typeof topic === 'string' ? topic : undefined,
+          orientation: orientation as PhotoFilters['orientation'],
+          color: color as PhotoFilters['color'],
+        });
+        if (!photo) {
+          throw new Error('Could not load a new photo matching the request');
+        }
+        return photo;
+      },
+    },
+    {
+      name: 'capture_screen',
+      description:
+        "Capture the user's shared screen and add the screenshot to the conversation. Only works while screen sharing is on.",
+      parameters: NO_PARAMETERS,
+      handler: async () => {
+        await captureScreen();
+        return { ok: true, note: 'Screenshot added to the conversation as the latest user image.' };
+      },
+    },
+    {
+      name: 'get_photo_metadata',
+      description:
+        'Get the photographer, description and links of the photo currently shown in the image pane.',
+      parameters: NO_PARAMETERS,
+      handler: () => {
+        const photo = getPhoto();
+        if (!photo) {
+          throw new Error('No photo is currently displayed');
+        }
+        return photo;
+      },
+    },
+  ];
+}
@@ -0,0 +1,100 @@
+/**
+ * Audio device selection: mic constraints and the persisted input/output choice
+ */
+
+export interface AudioDeviceSelection {
+  inputId: string | null; // null = system default
+  outputId: string | null;
+}
+
+const STORAGE_KEY = 'realtime-audio-devices';
+
+const DEFAULT_SELECTION: AudioDeviceSelection = { inputId: null, outputId: null };
+
+const MIC_PROCESSING: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+function getMicConstraints(deviceId: string | null): MediaStreamConstraints {
+  return {
+    audio: deviceId ? { ...MIC_PROCESSING, deviceId: { exact: deviceId } } : MIC_PROCESSING,
+  };
+}
+
+/**
+ * Open the selected mic. When that device is gone (unplugged since it was
+ * saved), fall back to the system default and clear the saved choice.
+ */
+export async function openMicStream(deviceId: string | null): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia(getMicConstraints(deviceId));
+  } catch (error) {
+    const isMissingDevice =
+      error instanceof DOMException &&
+      (error.name === 'OverconstrainedError' || error.name === 'NotFoundError');
+    if (!deviceId || !isMissingDevice) {
+      throw error;
+    }
+
+    console.warn('Selected microphone is unavailable, using the default:', error);
+    const stream = await navigator.mediaDevices.getUserMedia(getMicConstraints(null));
+    if (getAudioDeviceSelection().inputId === deviceId) {
+      saveAudioDeviceSelection({ ...getAudioDeviceSelection(), inputId: null });
+    }
+    return stream;
+  }
+}
+
+// setSinkId is missing in Safari and Firefox (without a flag)
+export function supportsOutputSelection(): boolean {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence (localStorage-backed store for useSyncExternalStore)
+// ---------------------------------------------------------------------------
+
+let cachedSelection: AudioDeviceSelection | null = null;
+const listeners = new Set<() => void>();
+
+function loadAudioDeviceSelection(): AudioDeviceSelection {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_SELECTION, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Failed to load audio devices:', error);
+  }
+  return DEFAULT_SELECTION;
+}
+
+export function getAudioDeviceSelection(): AudioDeviceSelection {
+  if (!cachedSelection) {
+    cachedSelection = loadAudioDeviceSelection();
+  }
+  return cachedSelection;
+}
+
+export function getServerAudioDeviceSelection(): AudioDeviceSelection {
+  return DEFAULT_SELECTION;
+}
+
+export function subscribeAudioDeviceSelection(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function saveAudioDeviceSelection(selection: AudioDeviceSelection): void {
+  cachedSelection = selection;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+  } catch (error) {
+    console.warn('Failed to save audio devices:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
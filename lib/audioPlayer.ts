@@ -0,0 +1,128 @@
+/**
+ * Gapless playback of streamed PCM16 (24kHz mono) through an AudioWorklet ring
+ * buffer - see public/worklets/pcm16-player.js
+ */
+
+export const PLAYER_WORKLET_URL = '/worklets/pcm16-player.js';
+
+const PLAYBACK_SAMPLE_RATE = 24000;
+const DEFAULT_PREBUFFER_MS = 100;
+
+export interface PcmPlayer {
+  push: (pcm16: Int16Array) => void;
+  end: () => void; // The current stream is complete; play out the tail without waiting to prebuffer
+  flush: () => void; // Drop everything queued, immediately
+  resume: () => Promise<void>; // Call from a user gesture (autoplay policy)
+  setSinkId: (deviceId: string) => Promise<void>; // '' = default output
+  getPlayedMs: () => number; // Audio actually played since the player was created
+  getQueuedMs: () => number; // Audio pushed but not played yet
+  isPlaying: () => boolean; // Audio queued or playing
+  stream: MediaStream; // What is being played, e.g. for recording
+  close: () => void;
+}
+
+interface PcmPlayerOptions {
+  prebufferMs?: number; // Jitter buffer before playback starts (and after an underrun)
+  onDrained?: () => void; // The stream was ended and everything has played
+  playLocally?: boolean; // False to only feed `stream` (e.g. into a peer connection)
+}
+
+export function decodePcm16(base64: string): Int16Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+}
+
+export function createPcmPlayer({
+  prebufferMs = DEFAULT_PREBUFFER_MS,
+  onDrained,
+  playLocally = true,
+}: PcmPlayerOptions = {}): PcmPlayer {
+  // The context runs at the API's rate, so the browser resamples for the device
+  const context = new AudioContext({ sampleRate: PLAYBACK_SAMPLE_RATE });
+  const streamDestination = context.createMediaStreamDestination();
+
+  let node: AudioWorkletNode | null = null;
+  let pending: { message: unknown; transfer?: Transferable[] }[] = []; // Until the module loads
+  let closed = false;
+  let pushedSamples = 0;
+  let playedSamples = 0;
+  let pushedSinceFlush: number | null = null; // Until the worklet confirms a flush
+
+  const post = (message: unknown, transfer?: Transferable[]) => {
+    if (node) {
+      node.port.postMessage(message, transfer ?? []);
+    } else {
+      pending.push({ message, transfer });
+    }
+  };
+
+  context.audioWorklet
+    .addModule(PLAYER_WORKLET_URL)
+    .then(() => {
+      if (closed) {
+        return;
+      }
+      node = new AudioWorkletNode(context, 'pcm16-player', {
+        outputChannelCount: [1],
+        processorOptions: { prebufferMs },
+      });
+      node.port.onmessage = (event: MessageEvent<{ type: string; played: number }>) => {
+        playedSamples = event.data.played;
+        if (event.data.type === 'flushed' && pushedSinceFlush !== null) {
+          pushedSamples = playedSamples + pushedSinceFlush;
+          pushedSinceFlush = null;
+        } else if (event.data.type === 'drained') {
+          onDrained?.();
+        }
+      };
+      if (playLocally) {
+        node.connect(context.destination);
+      }
+      node.connect(streamDestination);
+      pending.forEach(({ message, transfer }) => node!.port.postMessage(message, transfer ?? []));
+      pending = [];
+      console.log('🎵 Audio player ready');
+    })
+    .catch((error) => console.error('Failed to load audio player worklet:', error));
+
+  return {
+    push: (pcm16) => {
+      pushedSamples += pcm16.length;
+      if (pushedSinceFlush !== null) {
+        pushedSinceFlush += pcm16.length;
+      }
+      // Copy so the caller's buffer isn't detached by the transfer
+      const samples = pcm16.slice();
+      post({ type: 'push', samples }, [samples.buffer]);
+    },
+    end: () => post({ type: 'end' }),
+    flush: () => {
+      // Everything pushed so far is now either played or dropped
+      pushedSamples = playedSamples;
+      pushedSinceFlush = 0;
+      post({ type: 'flush' });
+    },
+    resume: () => context.resume(),
+    setSinkId: async (deviceId) => {
+      // AudioContext.setSinkId is Chromium-only and not in the DOM typings yet
+      const sinkContext = context as AudioContext & { setSinkId?: (id: string) => Promise<void> };
+      if (!sinkContext.setSinkId) {
+        throw new Error('Output device selection is not supported in this browser');
+      }
+      await sinkContext.setSinkId(deviceId);
+    },
+    getPlayedMs: () => (playedSamples / PLAYBACK_SAMPLE_RATE) * 1000,
+    getQueuedMs: () => (Math.max(pushedSamples - playedSamples, 0) / PLAYBACK_SAMPLE_RATE) * 1000,
+    isPlaying: () => pushedSamples > playedSamples,
+    stream: streamDestination.stream,
+    close: () => {
+      closed = true;
+      node?.disconnect();
+      context.close();
+    },
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Perceptual frame comparison for screen analysis.
+ * Frames are reduced to a small blurred grayscale thumbnail so cursor
+ * blinks and compression noise don't count as scene changes.
+ */
+
+import { cropRegionToPixels, type CropRegion } from '@/lib/screenshot';
+
+const SIGNATURE_SIZE = 32;
+
+// Per-pixel changes smaller than this (0-255) are treated as noise
+const PIXEL_NOISE_FLOOR = 12;
+
+/**
+ * Compute a grayscale signature of a video frame (SIGNATURE_SIZE x SIGNATURE_SIZE),
+ * limited to the crop region when one is set
+ */
+export function computeFrameSignature(
+  video: HTMLVideoElement,
+  region?: CropRegion | null
+): Uint8ClampedArray {
+  const { sx, sy, sw, sh } = cropRegionToPixels(region, video.videoWidth, video.videoHeight);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = SIGNATURE_SIZE;
+  canvas.height = SIGNATURE_SIZE;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  // Downscaling averages neighbouring pixels, which doubles as a blur
+  ctx.drawImage(video, sx, sy, sw, sh, 0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+
+  const signature = new Uint8ClampedArray(SIGNATURE_SIZE * SIGNATURE_SIZE);
+  for (let i = 0; i < signature.length; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    signature[i] = 0.299 * r + 0.587 * g + 0.114 * b; // Luma
+  }
+
+  return signature;
+}
+
+/**
+ * Fraction of the frame (0-1) that changed noticeably between two signatures
+ */
+export function frameDifference(a: Uint8ClampedArray, b: Uint8ClampedArray): number {
+  if (a.length !== b.length) {
+    return 1;
+  }
+
+  let changed = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (Math.abs(a[i] - b[i]) > PIXEL_NOISE_FLOOR) {
+      changed++;
+    }
+  }
+
+  return changed / a.length;
+}
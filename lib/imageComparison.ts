@@ -0,0 +1,43 @@
+import type { ContentPart } from '@/lib/realtimeEvents';
+
+/**
+ * One side of a comparison turn
+ */
+export interface ComparisonImage {
+  label: string; // e.g. "Image A (previous)"
+  dataUrl: string;
+  details?: string; // Extra context, e.g. photo metadata
+}
+
+// response.create metadata naming the comparison item a response answers
+export const COMPARISON_ITEM_METADATA = 'comparison_item';
+
+export const COMPARISON_PROMPT =
+  'Compare the two images below. Image A is the previous one and image B is the current one. Describe what is different between them, then briefly what they have in common.';
+
+export function createComparisonImages(
+  previous: Omit<ComparisonImage, 'label'>,
+  current: Omit<ComparisonImage, 'label'>
+): ComparisonImage[] {
+  return [
+    { ...previous, label: 'Image A (previous)' },
+    { ...current, label: 'Image B (current)' },
+  ];
+}
+
+/**
+ * Content for a single conversation.item.create: the prompt, then each image
+ * preceded by an input_text part naming it so the model can refer to it
+ */
+export function buildComparisonContent(
+  images: ComparisonImage[],
+  prompt = COMPARISON_PROMPT
+): ContentPart[] {
+  return [
+    { type: 'input_text', text: prompt },
+    ...images.flatMap((image): ContentPart[] => [
+      { type: 'input_text', text: image.details ? `${image.label}: ${image.details}` : `${image.label}:` },
+      { type: 'input_image', image_url: image.dataUrl },
+    ]),
+  ];
+}
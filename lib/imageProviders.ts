@@ -0,0 +1,371 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  LOCAL_IMAGE_ROUTE,
+  PHOTO_COLORS,
+  PHOTO_ORIENTATIONS,
+  type PhotoColor,
+  type PhotoFilters,
+  type PhotoOrientation,
+  type UnsplashPhoto,
+} from '@/lib/photos';
+
+/**
+ * Server-side photo sources behind /api/unsplash, selected by `?provider=` or
+ * IMAGE_PROVIDER (default: unsplash with UNSPLASH_ACCESS_KEY, local otherwise -
+ * see getFallbackProviderName):
+ * - unsplash: random photo from the Unsplash API
+ * - local: random image file from IMAGE_LOCAL_DIR (default public/photos), works offline
+ * - picsum: random photo from Lorem Picsum (no key needed)
+ * - manifest: random entry from a JSON list of photos (IMAGE_MANIFEST)
+ *
+ * Filters are applied as far as each source allows: Unsplash supports all of
+ * them, local and manifest match query/topic words against descriptions, and
+ * Picsum only knows orientation and black and white.
+ */
+export type ImageProviderName = 'unsplash' | 'local' | 'picsum' | 'manifest';
+
+export interface ImageProvider {
+  getRandomPhoto: (filters: PhotoFilters) => Promise<UnsplashPhoto>;
+}
+
+// Remote hosts photos may come from. Keep in sync with images.remotePatterns in
+// next.config.ts; /api/image only proxies these.
+export const ALLOWED_IMAGE_HOSTS = ['images.unsplash.com', 'picsum.photos', 'fastly.picsum.photos'];
+
+const DEFAULT_LOCAL_DIR = path.join(process.cwd(), 'public', 'photos');
+const DEFAULT_MANIFEST = path.join(DEFAULT_LOCAL_DIR, 'manifest.json');
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+// Picsum serves any size; landscape matches the old 1920x1080 default
+const PICSUM_SIZES: Record<PhotoOrientation, [number, number]> = {
+  landscape: [1920, 1080],
+  portrait: [1080, 1920],
+  squarish: [1440, 1440],
+};
+const PICSUM_LIST_PAGES = 10; // 100 photos per page
+
+const UNSPLASH_API_URL = 'https://api.unsplash.com';
+const UNSPLASH_SEARCH_PAGE_SIZE = 30;
+
+// Topic slug -> ID; the random endpoint filters by topic ID
+const unsplashTopicIds = new Map<string, string>();
+
+function pickRandom<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+// "street-photography" -> ["street", "photography"]
+function toWords(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// Every query word and (with a topic) any topic word must appear in the text
+function matchesText(text: string, { query, topic }: PhotoFilters): boolean {
+  const words = new Set(toWords(text));
+  return (
+    toWords(query ?? '').every((word) => words.has(word)) &&
+    (!topic || toWords(topic).some((word) => words.has(word)))
+  );
+}
+
+// Same-origin paths or https URLs on an allowed host - anything else breaks
+// next/image and the /api/image proxy
+function isAllowedPhotoUrl(url: string): boolean {
+  if (url.startsWith('/') && !url.startsWith('//')) {
+    return true;
+  }
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && ALLOWED_IMAGE_HOSTS.includes(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+function describeFilters({ query, topic }: PhotoFilters): string {
+  return [query && `"${query}"`, topic && `topic ${topic}`].filter(Boolean).join(' and ');
+}
+
+/**
+ * Read filters from /api/unsplash query parameters. Throws on unknown
+ * orientation or color values.
+ */
+export function parsePhotoFilters(params: URLSearchParams): PhotoFilters {
+  const orientation = params.get('orientation') || undefined;
+  const color = params.get('color') || undefined;
+  if (orientation && !PHOTO_ORIENTATIONS.includes(orientation as PhotoOrientation)) {
+    throw new Error(`Unknown orientation: ${orientation}`);
+  }
+  if (color && !PHOTO_COLORS.includes(color as PhotoColor)) {
+    throw new Error(`Unknown color: ${color}`);
+  }
+  return {
+    query: params.get('query')?.trim() || undefined,
+    topic: params.get('topic')?.trim() || undefined,
+    collection: params.get('collection')?.trim() || undefined,
+    orientation: orientation as PhotoOrientation | undefined,
+    color: color as PhotoColor | undefined,
+  };
+}
+
+function getLocalDir(): string {
+  return process.env.IMAGE_LOCAL_DIR || DEFAULT_LOCAL_DIR;
+}
+
+// "golden-gate_bridge.jpg" -> "golden gate bridge"
+function describeFileName(fileName: string): string {
+  return path.parse(fileName).name.replace(/[-_]+/g, ' ').trim() || fileName;
+}
+
+async function listLocalImages(): Promise<string[]> {
+  const entries = await fs.readdir(getLocalDir(), { withFileTypes: true }).catch((error) => {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  });
+  return entries
+    .filter((entry) => entry.isFile() && path.extname(entry.name).toLowerCase() in IMAGE_CONTENT_TYPES)
+    .map((entry) => entry.name);
+}
+
+/**
+ * Read an image from the local folder for LOCAL_IMAGE_ROUTE. Returns null for
+ * anything that isn't a plain image file name in that folder.
+ */
+export async function readLocalImage(
+  fileName: string
+): Promise<{ bytes: Uint8Array<ArrayBuffer>; contentType: string } | null> {
+  const contentType = IMAGE_CONTENT_TYPES[path.extname(fileName).toLowerCase()];
+  if (!contentType || path.basename(fileName) !== fileName || fileName.startsWith('.')) {
+    return null;
+  }
+  try {
+    const bytes = await fs.readFile(path.join(getLocalDir(), fileName));
+    return { bytes: new Uint8Array(bytes), contentType };
+  } catch {
+    return null;
+  }
+}
+
+interface UnsplashApiPhoto {
+  urls: { regular: string };
+  user: { name: string; links: { html: string } };
+  links: { html: string };
+  description: string | null;
+  alt_description: string | null;
+}
+
+async function fetchUnsplash<T>(pathAndQuery: string, accessKey: string): Promise<T> {
+  const response = await fetch(`${UNSPLASH_API_URL}${pathAndQuery}`, {
+    headers: { Authorization: `Client-ID ${accessKey}` },
+    cache: 'no-store', // Disable Next.js cache
+  });
+  if (!response.ok) {
+    throw new Error(`Unsplash API error ${response.status}`);
+  }
+  return response.json();
+}
+
+async function getUnsplashTopicId(slug: string, accessKey: string): Promise<string> {
+  let id = unsplashTopicIds.get(slug);
+  if (!id) {
+    id = (await fetchUnsplash<{ id: string }>(`/topics/${encodeURIComponent(slug)}`, accessKey)).id;
+    unsplashTopicIds.set(slug, id);
+  }
+  return id;
+}
+
+// The random endpoint can't combine query with topics or collections, and has
+// no color filter, so searches go through /search/photos instead
+async function findUnsplashPhoto(filters: PhotoFilters, accessKey: string): Promise<UnsplashApiPhoto> {
+  const { query, topic, collection, orientation = 'landscape', color } = filters;
+  const params = new URLSearchParams({ orientation });
+  if (collection) {
+    params.set('collections', collection);
+  }
+
+  if (query || color) {
+    params.set('query', [query, topic && toWords(topic).join(' ')].filter(Boolean).join(' ') || 'photo');
+    params.set('per_page', String(UNSPLASH_SEARCH_PAGE_SIZE));
+    if (color) {
+      params.set('color', color);
+    }
+    const { results } = await fetchUnsplash<{ results: UnsplashApiPhoto[] }>(
+      `/search/photos?${params}`,
+      accessKey
+    );
+    if (results.length === 0) {
+      throw new Error(`No Unsplash photos match ${describeFilters(filters) || `color ${color}`}`);
+    }
+    return pickRandom(results);
+  }
+
+  if (topic) {
+    params.set('topics', await getUnsplashTopicId(topic, accessKey));
+  }
+  return fetchUnsplash<UnsplashApiPhoto>(`/photos/random?${params}`, accessKey);
+}
+
+interface PicsumPhoto {
+  id: string;
+  author: string;
+  url: string;
+}
+
+// Manifest entries may carry extra words to match filters against
+type ManifestEntry = Partial<UnsplashPhoto> & { tags?: string[]; collection?: string };
+
+const IMAGE_PROVIDERS: Record<ImageProviderName, ImageProvider> = {
+  unsplash: {
+    getRandomPhoto: async (filters) => {
+      const accessKey = process.env.UNSPLASH_ACCESS_KEY;
+      if (!accessKey) {
+        throw new Error('UNSPLASH_ACCESS_KEY is not set');
+      }
+      const data = await findUnsplashPhoto(filters, accessKey);
+      return {
+        url: data.urls.regular,
+        photographer: data.user.name,
+        photographerUrl: data.user.links.html,
+        photoUrl: data.links.html,
+        description: data.description || data.alt_description || 'Unsplash photo',
+        source: 'Unsplash',
+        sourceUrl: 'https://unsplash.com',
+      };
+    },
+  },
+  local: {
+    getRandomPhoto: async (filters) => {
+      const allFiles = await listLocalImages();
+      if (allFiles.length === 0) {
+        throw new Error(`No images in ${getLocalDir()} - add some JPEG, PNG or WebP files`);
+      }
+      const files = allFiles.filter((fileName) => matchesText(describeFileName(fileName), filters));
+      if (files.length === 0) {
+        throw new Error(`No local image names match ${describeFilters(filters)}`);
+      }
+      const fileName = pickRandom(files);
+      const url = `${LOCAL_IMAGE_ROUTE}/${encodeURIComponent(fileName)}`;
+      return {
+        url,
+        photographer: 'Local library',
+        photographerUrl: '',
+        photoUrl: url,
+        description: describeFileName(fileName),
+        source: 'this computer',
+      };
+    },
+  },
+  picsum: {
+    getRandomPhoto: async ({ query, topic, collection, orientation = 'landscape', color }) => {
+      if (query || topic || collection || (color && color !== 'black_and_white')) {
+        throw new Error('Lorem Picsum only supports the orientation and black_and_white filters');
+      }
+      const page = 1 + Math.floor(Math.random() * PICSUM_LIST_PAGES);
+      const response = await fetch(`https://picsum.photos/v2/list?page=${page}&limit=100`, {
+        cache: 'no-store',
+      });
+      if (!response.ok) {
+        throw new Error(`Picsum API error ${response.status}`);
+      }
+      const photos: PicsumPhoto[] = await response.json();
+      if (photos.length === 0) {
+        throw new Error('Picsum returned no photos');
+      }
+      const photo = pickRandom(photos);
+      const [width, height] = PICSUM_SIZES[orientation];
+      return {
+        url: `https://picsum.photos/id/${photo.id}/${width}/${height}${color ? '?grayscale' : ''}`,
+        photographer: photo.author,
+        photographerUrl: photo.url,
+        photoUrl: photo.url,
+        description: 'Random photo from Lorem Picsum',
+        source: 'Lorem Picsum',
+        sourceUrl: 'https://picsum.photos',
+      };
+    },
+  },
+  manifest: {
+    getRandomPhoto: async (filters) => {
+      // Re-read every time so edits show up without a restart
+      const manifestPath = process.env.IMAGE_MANIFEST || DEFAULT_MANIFEST;
+      const entries: ManifestEntry[] = JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+      const withUrls = Array.isArray(entries)
+        ? entries.filter((entry) => typeof entry?.url === 'string')
+        : [];
+      if (withUrls.length === 0) {
+        throw new Error(`No photos with a url in ${manifestPath}`);
+      }
+      const allPhotos = withUrls.filter((entry) => isAllowedPhotoUrl(entry.url!));
+      const rejected = withUrls.filter((entry) => !allPhotos.includes(entry)).map((entry) => entry.url);
+      if (rejected.length > 0) {
+        const message = `${manifestPath} has URLs on hosts that are not allowed (${ALLOWED_IMAGE_HOSTS.join(', ')} or same-origin paths): ${rejected.join(', ')}`;
+        if (allPhotos.length === 0) {
+          throw new Error(message);
+        }
+        console.warn(`Skipping manifest entries: ${message}`);
+      }
+      const photos = allPhotos.filter(
+        (entry) =>
+          matchesText([entry.description, ...(entry.tags ?? [])].join(' '), filters) &&
+          (!filters.collection || entry.collection === filters.collection)
+      );
+      if (photos.length === 0) {
+        const wanted = describeFilters(filters) || `collection ${filters.collection}`;
+        throw new Error(`No manifest photos match ${wanted}`);
+      }
+      const photo = pickRandom(photos);
+      return {
+        url: photo.url!,
+        photographer: photo.photographer || 'Unknown',
+        photographerUrl: photo.photographerUrl || '',
+        photoUrl: photo.photoUrl || photo.url!,
+        description: photo.description || 'Photo',
+        source: photo.source,
+        sourceUrl: photo.sourceUrl,
+      };
+    },
+  },
+};
+
+/**
+ * The provider to use for a request: the `?provider=` override, then
+ * IMAGE_PROVIDER, then unsplash if a key is configured and local otherwise
+ */
+export function getImageProviderName(requested?: string | null): ImageProviderName {
+  const name =
+    requested || process.env.IMAGE_PROVIDER || (process.env.UNSPLASH_ACCESS_KEY ? 'unsplash' : 'local');
+  if (!Object.hasOwn(IMAGE_PROVIDERS, name)) {
+    throw new Error(`Unknown image provider: ${name}`);
+  }
+  return name as ImageProviderName;
+}
+
+/**
+ * Where to turn when `name` fails: remote providers fall back to the local
+ * folder. The implicit local default (no key, nothing configured) falls back
+ * to Picsum, so a fresh checkout with an empty folder still shows photos.
+ */
+export function getFallbackProviderName(
+  name: ImageProviderName,
+  requested?: string | null
+): ImageProviderName | null {
+  if (name !== 'local') {
+    return 'local';
+  }
+  const isImplicit = !requested && !process.env.IMAGE_PROVIDER;
+  return isImplicit ? 'picsum' : null;
+}
+
+export function getImageProvider(name: ImageProviderName): ImageProvider {
+  return IMAGE_PROVIDERS[name];
+}
@@ -0,0 +1,172 @@
+/**
+ * In-browser "server side" of the WebRTC connection for mock mode.
+ * A second RTCPeerConnection answers the app's SDP offer, receives the
+ * oai-events DataChannel and the mic track, and wires them to the scripted
+ * server, so useRealtime runs the exact same code path as against OpenAI.
+ */
+
+import { createMockRealtimeServer, SPEECH_LEVEL } from '@/lib/mock/mockRealtimeServer';
+import { createPcmPlayer, decodePcm16 } from '@/lib/audioPlayer';
+import type { ClientEvent, ServerEvent } from '@/lib/realtimeEvents';
+
+const LEVEL_POLL_MS = 50;
+// Loopback host candidates arrive almost at once; don't wait on slow interfaces
+const ICE_GATHER_TIMEOUT_MS = 2000;
+// The app peer was closed or replaced before it ever opened the DataChannel
+const CONNECT_TIMEOUT_MS = 15000;
+
+// Poll the mic level and report speech on/off transitions
+function watchSpeech(track: MediaStreamTrack, onSpeaking: (speaking: boolean) => void): () => void {
+  const stream = new MediaStream([track]);
+  // Chrome only feeds remote WebRTC audio into Web Audio while a media element plays it
+  const sink = new Audio();
+  sink.muted = true;
+  sink.srcObject = stream;
+  sink.play().catch(() => undefined);
+
+  const audioContext = new AudioContext();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 1024;
+  audioContext.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  const interval = setInterval(() => {
+    // The app's AudioContext may start suspended until a user gesture
+    if (audioContext.state === 'suspended') {
+      audioContext.resume().catch(() => undefined);
+    }
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] * samples[i];
+    }
+    onSpeaking(Math.sqrt(sum / samples.length) > SPEECH_LEVEL);
+  }, LEVEL_POLL_MS);
+
+  return () => {
+    clearInterval(interval);
+    sink.srcObject = null;
+    audioContext.close();
+  };
+}
+
+/**
+ * Answer an SDP offer with a local mock server peer. Resolves with the answer
+ * SDP once ICE gathering is complete (no trickle, like the real endpoint).
+ */
+export async function answerWithMockServer(offerSdp: string): Promise<string> {
+  const pc = new RTCPeerConnection();
+  // Like OpenAI over WebRTC, assistant audio goes out as a media track, not as
+  // events, bracketed by output_audio_buffer.started/stopped
+  let speakingResponseId: string | null = null;
+  const sendToClient = (event: ServerEvent) => {
+    if (channel?.readyState === 'open') {
+      channel.send(JSON.stringify(event));
+    }
+  };
+  const voice = createPcmPlayer({
+    playLocally: false,
+    onDrained: () => {
+      if (speakingResponseId) {
+        sendToClient({ type: 'output_audio_buffer.stopped', response_id: speakingResponseId });
+        speakingResponseId = null;
+      }
+    },
+  });
+  const server = createMockRealtimeServer((event: ServerEvent) => {
+    if (event.type === 'response.audio.delta') {
+      voice.resume().catch(() => undefined); // Suspended until the page has had a user gesture
+      voice.push(decodePcm16(event.delta));
+      if (!speakingResponseId) {
+        speakingResponseId = event.response_id;
+        sendToClient({ type: 'output_audio_buffer.started', response_id: event.response_id });
+      }
+      return;
+    }
+    if (event.type === 'response.audio.done') {
+      voice.end();
+    } else if (
+      event.type === 'output_audio_buffer.cleared' ||
+      (event.type === 'response.done' && event.response.status === 'cancelled')
+    ) {
+      voice.flush();
+      speakingResponseId = null;
+    }
+    sendToClient(event);
+  });
+  let channel: RTCDataChannel | null = null;
+  let stopWatching: (() => void) | null = null;
+
+  let isShutDown = false;
+  const shutdown = () => {
+    if (isShutDown) {
+      return;
+    }
+    isShutDown = true;
+    clearTimeout(connectTimer);
+    server.close();
+    stopWatching?.();
+    stopWatching = null;
+    voice.close();
+    pc.close();
+    console.log('🧪 Mock server closed');
+  };
+
+  const connectTimer = setTimeout(() => {
+    console.warn('🧪 Mock server was never connected to');
+    shutdown();
+  }, CONNECT_TIMEOUT_MS);
+
+  pc.ondatachannel = (e) => {
+    channel = e.channel;
+    channel.onopen = () => {
+      clearTimeout(connectTimer);
+      server.start();
+    };
+    channel.onclose = shutdown;
+    channel.onmessage = (message) => {
+      try {
+        server.handleClientEvent(JSON.parse(message.data) as ClientEvent);
+      } catch (error) {
+        console.error('🧪 Mock server could not handle client event:', error);
+      }
+    };
+  };
+
+  pc.ontrack = (e) => {
+    stopWatching?.();
+    stopWatching = watchSpeech(e.track, server.setSpeaking);
+  };
+
+  pc.onconnectionstatechange = () => {
+    if (pc.connectionState === 'failed' || pc.connectionState === 'closed') {
+      shutdown();
+    }
+  };
+
+  try {
+    await pc.setRemoteDescription({ type: 'offer', sdp: offerSdp });
+    // Reuses the offered audio transceiver, making it sendrecv
+    pc.addTrack(voice.stream.getAudioTracks()[0], voice.stream);
+    await pc.setLocalDescription(await pc.createAnswer());
+
+    // Answer with the candidates gathered so far if gathering stalls
+    if (pc.iceGatheringState !== 'complete') {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, ICE_GATHER_TIMEOUT_MS);
+        pc.addEventListener('icegatheringstatechange', () => {
+          if (pc.iceGatheringState === 'complete') {
+            clearTimeout(timer);
+            resolve();
+          }
+        });
+      });
+    }
+  } catch (error) {
+    shutdown();
+    throw error;
+  }
+
+  console.log('🧪 Mock Realtime server answered SDP offer');
+  return pc.localDescription!.sdp;
+}
@@ -0,0 +1,499 @@
+/**
+ * Scripted stand-in for the OpenAI Realtime server.
+ * Consumes client events and emits plausible server events (session, VAD,
+ * transcription, streamed responses with audio, function calls) so the app
+ * can be developed and tested offline. Transport-agnostic: see mockPeer.ts
+ * (WebRTC) and mockSocket.ts (WebSocket).
+ */
+
+import type {
+  ClientEvent,
+  ConversationItem,
+  MessageItem,
+  Modality,
+  Response,
+  ServerEvent,
+  SessionConfig,
+} from '@/lib/realtimeEvents';
+
+export interface MockRealtimeServer {
+  start: () => void;
+  handleClientEvent: (event: ClientEvent) => void;
+  setSpeaking: (speaking: boolean) => void; // Mic level crossed the speech threshold
+  close: () => void;
+}
+
+const SAMPLE_RATE = 24000;
+const WORD_INTERVAL_MS = 80; // Pace of streamed transcript words
+const AUDIO_MS_PER_WORD = 240;
+const TRANSCRIPTION_DELAY_MS = 300;
+
+export const SPEECH_LEVEL = 0.02; // RMS above which mic audio counts as speech
+
+// Mic audio can't be understood offline, so user speech gets canned transcripts
+const SCRIPTED_TRANSCRIPTS = [
+  'Can you describe what you see?',
+  'What colors stand out the most?',
+  'Tell me more about this picture.',
+  'What do you think is happening here?',
+];
+
+const DEFAULT_SESSION: SessionConfig = {
+  id: 'sess_mock',
+  model: 'mock-realtime',
+  modalities: ['text', 'audio'],
+  instructions: '',
+  voice: 'alloy',
+  input_audio_format: 'pcm16',
+  output_audio_format: 'pcm16',
+  input_audio_transcription: null,
+  turn_detection: {
+    type: 'server_vad',
+    threshold: 0.5,
+    prefix_padding_ms: 300,
+    silence_duration_ms: 500,
+    create_response: true,
+    interrupt_response: true,
+  },
+  tools: [],
+  tool_choice: 'auto',
+  temperature: 0.8,
+};
+
+// A soft two-tone babble, one syllable per word, so playback is audible
+function synthesizeSpeech(words: number): Int16Array {
+  const samplesPerWord = (SAMPLE_RATE * AUDIO_MS_PER_WORD) / 1000;
+  const pcm = new Int16Array(words * samplesPerWord);
+  for (let w = 0; w < words; w++) {
+    const frequency = 180 + (w % 3) * 40;
+    for (let i = 0; i < samplesPerWord; i++) {
+      const envelope = Math.sin((Math.PI * i) / samplesPerWord);
+      const sample = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 0.2;
+      pcm[w * samplesPerWord + i] = sample * 0x7fff;
+    }
+  }
+  return pcm;
+}
+
+function toBase64(pcm: Int16Array): string {
+  const bytes = new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+// RMS level of a base64 PCM16 chunk, in [0, 1]
+function pcm16Level(base64: string): number {
+  const binary = atob(base64);
+  const samples = Math.floor(binary.length / 2);
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const value = ((binary.charCodeAt(i * 2 + 1) << 24) >> 16) | binary.charCodeAt(i * 2);
+    sum += (value / 0x8000) ** 2;
+  }
+  return samples ? Math.sqrt(sum / samples) : 0;
+}
+
+function userText(item: MessageItem): string {
+  return item.content
+    .map((part) => (part.type === 'input_text' ? part.text : part.type === 'input_audio' ? part.transcript ?? '' : ''))
+    .filter(Boolean)
+    .join(' ');
+}
+
+export function createMockRealtimeServer(emit: (event: ServerEvent) => void): MockRealtimeServer {
+  let session: SessionConfig = DEFAULT_SESSION;
+  const conversation: ConversationItem[] = [];
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const startedAt = Date.now();
+
+  let counter = 0;
+  let transcriptIndex = 0;
+  let activeResponse: { id: string; cancel: () => void } | null = null;
+
+  let isSpeaking = false;
+  let speechItemId: string | null = null;
+  let silenceTimer: ReturnType<typeof setTimeout> | null = null;
+  let bufferedMs = 0;
+  let speechStartedAt = 0;
+
+  const nextId = (prefix: string) => `${prefix}_mock${(++counter).toString().padStart(6, '0')}`;
+
+  const send = (event: ServerEvent) => emit({ ...event, event_id: nextId('event') });
+
+  const later = (delayMs: number, fn: () => void) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      fn();
+    }, delayMs);
+    timers.add(timer);
+    return timer;
+  };
+
+  const addItem = (item: ConversationItem) => {
+    const previous = conversation[conversation.length - 1];
+    conversation.push(item);
+    send({ type: 'conversation.item.created', previous_item_id: previous?.id ?? null, item });
+  };
+
+  const isVad = () => !!session.turn_detection;
+
+  // ---------------------------------------------------------------------------
+  // Input audio
+  // ---------------------------------------------------------------------------
+
+  const commitAudio = (itemId = nextId('item')) => {
+    const previous = conversation[conversation.length - 1];
+    send({ type: 'input_audio_buffer.committed', previous_item_id: previous?.id ?? null, item_id: itemId });
+
+    const item: MessageItem = {
+      id: itemId,
+      type: 'message',
+      role: 'user',
+      status: 'completed',
+      content: [{ type: 'input_audio', transcript: null }],
+    };
+    addItem(item);
+    console.log(`🧪 Mock server committed ${Math.round(bufferedMs)}ms of audio`);
+    bufferedMs = 0;
+
+    if (session.input_audio_transcription) {
+      later(TRANSCRIPTION_DELAY_MS, () => {
+        const transcript = SCRIPTED_TRANSCRIPTS[transcriptIndex++ % SCRIPTED_TRANSCRIPTS.length];
+        item.content = [{ type: 'input_audio', transcript }];
+        send({
+          type: 'conversation.item.input_audio_transcription.completed',
+          item_id: itemId,
+          content_index: 0,
+          transcript,
+        });
+      });
+    }
+  };
+
+  const setSpeaking = (speaking: boolean) => {
+    if (speaking === isSpeaking) {
+      return;
+    }
+    isSpeaking = speaking;
+    const now = Date.now();
+
+    if (speaking) {
+      speechStartedAt = now;
+      if (silenceTimer) {
+        clearTimeout(silenceTimer);
+        timers.delete(silenceTimer);
+        silenceTimer = null;
+      }
+      if (isVad() && !speechItemId) {
+        speechItemId = nextId('item');
+        send({
+          type: 'input_audio_buffer.speech_started',
+          audio_start_ms: now - startedAt,
+          item_id: speechItemId,
+        });
+        if (activeResponse && session.turn_detection?.interrupt_response !== false) {
+          activeResponse.cancel();
+        }
+      }
+      return;
+    }
+
+    bufferedMs += now - speechStartedAt;
+    if (!isVad() || !speechItemId) {
+      return;
+    }
+
+    // Server VAD waits for silence_duration_ms of quiet before ending the turn
+    const silenceMs =
+      (session.turn_detection?.type === 'server_vad' && session.turn_detection.silence_duration_ms) ||
+      500;
+    silenceTimer = later(silenceMs, () => {
+      silenceTimer = null;
+      const itemId = speechItemId!;
+      speechItemId = null;
+      send({ type: 'input_audio_buffer.speech_stopped', audio_end_ms: Date.now() - startedAt, item_id: itemId });
+      commitAudio(itemId);
+      if (session.turn_detection?.create_response !== false) {
+        // Leave time for the transcript so the reply can refer to it
+        later(TRANSCRIPTION_DELAY_MS + 50, () => createResponse());
+      }
+    });
+  };
+
+  // ---------------------------------------------------------------------------
+  // Responses
+  // ---------------------------------------------------------------------------
+
+  // Decide what the assistant "says": a reply, or a call to a tool the user asked for
+  const planResponse = (): { text: string } | { call: { name: string; arguments: string } } => {
+    const last = conversation[conversation.length - 1];
+
+    if (last?.type === 'function_call_output') {
+      const output = last.output.length > 120 ? `${last.output.slice(0, 120)}...` : last.output;
+      return { text: `The tool returned ${output}. That is everything the mock server knows.` };
+    }
+
+    const lastUser = [...conversation]
+      .reverse()
+      .find((item): item is MessageItem => item.type === 'message' && item.role === 'user');
+    if (!lastUser) {
+      return { text: 'Hello from the mock Realtime server. Say something or send an image.' };
+    }
+
+    const text = userText(lastUser);
+    const images = lastUser.content.filter((part) => part.type === 'input_image').length;
+    if (images > 0) {
+      return {
+        text: `Mock description: I received ${images} image${images > 1 ? 's' : ''}${
+          text ? ` with the prompt "${text}"` : ''
+        }. A live session would describe what it shows.`,
+      };
+    }
+
+    // Call a registered tool when every word of its name appears in the request
+    const words = text.toLowerCase();
+    const tool = session.tools?.find((t) => t.name.split('_').every((word) => words.includes(word)));
+    if (tool) {
+      return { call: { name: tool.name, arguments: '{}' } };
+    }
+
+    return { text: text ? `Mock reply to "${text}".` : 'Mock reply. I heard you, but I cannot understand audio offline.' };
+  };
+
+  const estimateUsage = (outputTokens: number, audioTokens: number): Response['usage'] => {
+    const inputText = conversation.reduce(
+      (sum, item) => sum + (item.type === 'message' ? Math.ceil(userText(item).length / 4) : 0),
+      0
+    );
+    const inputImages = conversation.reduce(
+      (sum, item) =>
+        sum + (item.type === 'message' ? item.content.filter((p) => p.type === 'input_image').length * 765 : 0),
+      0
+    );
+    return {
+      total_tokens: inputText + inputImages + outputTokens + audioTokens,
+      input_tokens: inputText + inputImages,
+      output_tokens: outputTokens + audioTokens,
+      input_token_details: { text_tokens: inputText, audio_tokens: 0, image_tokens: inputImages, cached_tokens: 0 },
+      output_token_details: { text_tokens: outputTokens, audio_tokens: audioTokens },
+    };
+  };
+
+  const createResponse = (metadata: Record<string, string> | null = null, modalitiesOverride?: Modality[]) => {
+    activeResponse?.cancel();
+
+    const modalities = modalitiesOverride ?? session.modalities ?? ['text', 'audio'];
+    const withAudio = modalities.includes('audio');
+    const response: Response = {
+      id: nextId('resp'),
+      object: 'realtime.response',
+      status: 'in_progress',
+      output: [],
+      modalities,
+      metadata,
+      usage: null,
+    };
+    send({ type: 'response.created', response: { ...response } });
+
+    const plan = planResponse();
+    const itemId = nextId('item');
+    const finish = (status: Response['status'], output: ConversationItem[], usage: Response['usage']) => {
+      activeResponse = null;
+      send({ type: 'response.done', response: { ...response, status, output, usage } });
+    };
+
+    if ('call' in plan) {
+      const callId = nextId('call');
+      const item: ConversationItem = {
+        id: itemId,
+        type: 'function_call',
+        status: 'completed',
+        name: plan.call.name,
+        call_id: callId,
+        arguments: plan.call.arguments,
+      };
+      const ref = { response_id: response.id, item_id: itemId, output_index: 0, call_id: callId };
+      send({ type: 'response.output_item.added', response_id: response.id, output_index: 0, item: { ...item, arguments: '' } });
+      send({ type: 'response.function_call_arguments.delta', ...ref, delta: plan.call.arguments });
+      send({ type: 'response.function_call_arguments.done', ...ref, name: plan.call.name, arguments: plan.call.arguments });
+      send({ type: 'response.output_item.done', response_id: response.id, output_index: 0, item });
+      conversation.push(item);
+      finish('completed', [item], estimateUsage(10, 0));
+      return;
+    }
+
+    const words = plan.text.split(' ');
+    const part = { response_id: response.id, item_id: itemId, output_index: 0, content_index: 0 };
+    const emptyPart = withAudio ? ({ type: 'audio', transcript: '' } as const) : ({ type: 'text', text: '' } as const);
+    const item: MessageItem = { id: itemId, type: 'message', role: 'assistant', status: 'in_progress', content: [] };
+
+    send({ type: 'response.output_item.added', response_id: response.id, output_index: 0, item: { ...item } });
+    addItem({ ...item });
+    send({ type: 'response.content_part.added', ...part, part: emptyPart });
+
+    let index = 0;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const completeItem = (status: MessageItem['status']): MessageItem => {
+      const spoken = words.slice(0, index).join(' ');
+      return {
+        ...item,
+        status,
+        content: [withAudio ? { type: 'audio', transcript: spoken } : { type: 'text', text: spoken }],
+      };
+    };
+
+    const streamWord = () => {
+      if (cancelled) {
+        return;
+      }
+      if (index < words.length) {
+        const delta = (index === 0 ? '' : ' ') + words[index];
+        if (withAudio) {
+          send({ type: 'response.audio_transcript.delta', ...part, delta });
+          send({ type: 'response.audio.delta', ...part, delta: toBase64(synthesizeSpeech(1)) });
+        } else {
+          send({ type: 'response.text.delta', ...part, delta });
+        }
+        index++;
+        timer = later(WORD_INTERVAL_MS, streamWord);
+        return;
+      }
+
+      const done = completeItem('completed');
+      if (withAudio) {
+        send({ type: 'response.audio.done', ...part });
+        send({ type: 'response.audio_transcript.done', ...part, transcript: plan.text });
+      } else {
+        send({ type: 'response.text.done', ...part, text: plan.text });
+      }
+      send({ type: 'response.content_part.done', ...part, part: done.content[0] });
+      send({ type: 'response.output_item.done', response_id: response.id, output_index: 0, item: done });
+      conversation[conversation.findIndex((c) => c.id === itemId)] = done;
+
+      const audioTokens = withAudio ? Math.round((words.length * AUDIO_MS_PER_WORD) / 50) : 0;
+      finish('completed', [done], estimateUsage(Math.ceil(plan.text.length / 4), audioTokens));
+    };
+
+    activeResponse = {
+      id: response.id,
+      cancel: () => {
+        cancelled = true;
+        if (timer) {
+          clearTimeout(timer);
+          timers.delete(timer);
+        }
+        finish('cancelled', [completeItem('incomplete')], estimateUsage(Math.ceil(index * 1.5), 0));
+      },
+    };
+    timer = later(WORD_INTERVAL_MS, streamWord);
+  };
+
+  // ---------------------------------------------------------------------------
+  // Client events
+  // ---------------------------------------------------------------------------
+
+  const handleClientEvent = (event: ClientEvent) => {
+    switch (event.type) {
+      case 'session.update':
+        session = { ...session, ...event.session };
+        send({ type: 'session.updated', session });
+        break;
+
+      case 'conversation.item.create':
+        addItem({ ...event.item, id: event.item.id ?? nextId('item') });
+        break;
+
+      case 'conversation.item.truncate': {
+        const item = conversation.find((c) => c.id === event.item_id);
+        if (item?.type === 'message') {
+          // Keep only the words whose audio was played
+          const spokenWords = Math.floor(event.audio_end_ms / AUDIO_MS_PER_WORD);
+          item.content = item.content.map((p) =>
+            p.type === 'audio'
+              ? { ...p, transcript: (p.transcript ?? '').split(' ').slice(0, spokenWords).join(' ') }
+              : p
+          );
+        }
+        send({
+          type: 'conversation.item.truncated',
+          item_id: event.item_id,
+          content_index: event.content_index,
+          audio_end_ms: event.audio_end_ms,
+        });
+        break;
+      }
+
+      case 'conversation.item.delete': {
+        const index = conversation.findIndex((c) => c.id === event.item_id);
+        if (index >= 0) {
+          conversation.splice(index, 1);
+        }
+        send({ type: 'conversation.item.deleted', item_id: event.item_id });
+        break;
+      }
+
+      case 'input_audio_buffer.append':
+        // Streamed audio (WebSocket transport) drives the same level-based VAD
+        setSpeaking(pcm16Level(event.audio) > SPEECH_LEVEL);
+        break;
+
+      case 'input_audio_buffer.commit':
+        if (bufferedMs < 100 && !isSpeaking) {
+          send({
+            type: 'error',
+            error: {
+              type: 'invalid_request_error',
+              code: 'input_audio_buffer_commit_empty',
+              message: 'Error committing input audio buffer: buffer too small.',
+              event_id: event.event_id ?? null,
+            },
+          });
+          break;
+        }
+        if (isSpeaking) {
+          bufferedMs += Date.now() - speechStartedAt;
+          speechStartedAt = Date.now();
+        }
+        commitAudio();
+        break;
+
+      case 'input_audio_buffer.clear':
+        bufferedMs = 0;
+        send({ type: 'input_audio_buffer.cleared' });
+        break;
+
+      case 'output_audio_buffer.clear':
+        send({ type: 'output_audio_buffer.cleared', response_id: activeResponse?.id });
+        break;
+
+      case 'response.create':
+        // Transcripts of just-committed audio land shortly after the commit
+        later(TRANSCRIPTION_DELAY_MS + 50, () =>
+          createResponse(event.response?.metadata ?? null, event.response?.modalities)
+        );
+        break;
+
+      case 'response.cancel':
+        if (activeResponse && (!event.response_id || event.response_id === activeResponse.id)) {
+          activeResponse.cancel();
+        }
+        break;
+    }
+  };
+
+  return {
+    start: () => send({ type: 'session.created', session }),
+    handleClientEvent,
+    setSpeaking,
+    close: () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      activeResponse = null;
+    },
+  };
+}
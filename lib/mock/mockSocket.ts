@@ -0,0 +1,47 @@
+/**
+ * WebSocket stand-in for mock mode: frames go straight to the in-page
+ * scripted server, with async delivery like a real socket.
+ */
+
+import { createMockRealtimeServer } from '@/lib/mock/mockRealtimeServer';
+import type { ClientEvent } from '@/lib/realtimeEvents';
+import type { OpenSocket } from '@/lib/websocketTransport';
+
+export const openMockSocket: OpenSocket = ({ onOpen, onMessage, onClose }) => {
+  let open = true;
+  const server = createMockRealtimeServer((event) => {
+    if (open) {
+      onMessage(JSON.stringify(event));
+    }
+  });
+
+  setTimeout(() => {
+    onOpen();
+    server.start();
+    console.log('🧪 Mock Realtime server connected over WebSocket transport');
+  }, 0);
+
+  return {
+    send: (data) => {
+      setTimeout(() => {
+        if (!open) {
+          return;
+        }
+        try {
+          server.handleClientEvent(JSON.parse(data) as ClientEvent);
+        } catch (error) {
+          console.error('🧪 Mock server could not handle client event:', error);
+        }
+      }, 0);
+    },
+    close: () => {
+      if (!open) {
+        return;
+      }
+      open = false;
+      server.close();
+      onClose(1000, '');
+      console.log('🧪 Mock server closed');
+    },
+  };
+};
@@ -0,0 +1,137 @@
+import type { UnsplashPhoto } from '@/lib/photos';
+
+/**
+ * Previously shown photos with the assistant's latest description of each,
+ * kept in IndexedDB so the history survives reloads
+ */
+export interface PhotoHistoryEntry {
+  photo: UnsplashPhoto;
+  shownAt: number;
+  description?: string; // The assistant's answer to the last analysis
+  prompt?: string; // The prompt that produced it
+}
+
+const DB_NAME = 'realtime-image-demo';
+const DB_VERSION = 1;
+const STORE_NAME = 'photoHistory'; // Keyed by photo URL
+const MAX_ENTRIES = 50;
+
+const EMPTY_HISTORY: PhotoHistoryEntry[] = [];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'photo.url' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+}
+
+// ---------------------------------------------------------------------------
+// Store (in-memory copy of the database for useSyncExternalStore)
+// ---------------------------------------------------------------------------
+
+let cachedHistory: PhotoHistoryEntry[] = EMPTY_HISTORY; // Newest first
+let loadStarted = false;
+const listeners = new Set<() => void>();
+
+function setHistory(history: PhotoHistoryEntry[]): void {
+  cachedHistory = history;
+  listeners.forEach((listener) => listener());
+}
+
+function persist(entry: PhotoHistoryEntry): void {
+  withStore('readwrite', (store) => store.put(entry)).catch((error) =>
+    console.warn('Failed to save photo history:', error)
+  );
+}
+
+function loadPhotoHistory(): void {
+  withStore('readonly', (store) => store.getAll() as IDBRequest<PhotoHistoryEntry[]>)
+    .then((stored) => {
+      // Entries added before the load finished win over stored copies
+      const urls = new Set(cachedHistory.map((entry) => entry.photo.url));
+      const merged = [...cachedHistory, ...stored.filter((entry) => !urls.has(entry.photo.url))];
+      setHistory(merged.sort((a, b) => b.shownAt - a.shownAt).slice(0, MAX_ENTRIES));
+    })
+    .catch((error) => console.warn('Failed to load photo history:', error));
+}
+
+export function getPhotoHistory(): PhotoHistoryEntry[] {
+  return cachedHistory;
+}
+
+export function getServerPhotoHistory(): PhotoHistoryEntry[] {
+  return EMPTY_HISTORY;
+}
+
+export function subscribePhotoHistory(listener: () => void): () => void {
+  if (!loadStarted) {
+    loadStarted = true;
+    loadPhotoHistory();
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Record a newly shown photo (moves it to the front if it was shown before)
+ */
+export function addPhotoToHistory(photo: UnsplashPhoto): void {
+  const previous = cachedHistory.find((entry) => entry.photo.url === photo.url);
+  const entry: PhotoHistoryEntry = { ...previous, photo, shownAt: Date.now() };
+  const others = cachedHistory.filter((item) => item.photo.url !== photo.url);
+  const dropped = others.slice(MAX_ENTRIES - 1);
+
+  setHistory([entry, ...others.slice(0, MAX_ENTRIES - 1)]);
+  persist(entry);
+  dropped.forEach(({ photo: old }) =>
+    withStore('readwrite', (store) => store.delete(old.url)).catch((error) =>
+      console.warn('Failed to prune photo history:', error)
+    )
+  );
+}
+
+/**
+ * Attach the assistant's answer to a photo in the history
+ */
+export function setPhotoDescription(url: string, description: string, prompt: string): void {
+  const previous = cachedHistory.find((entry) => entry.photo.url === url);
+  if (!previous) {
+    return;
+  }
+  const entry: PhotoHistoryEntry = { ...previous, description, prompt };
+  setHistory(cachedHistory.map((item) => (item === previous ? entry : item)));
+  persist(entry);
+}
+
+export function clearPhotoHistory(): void {
+  setHistory(EMPTY_HISTORY);
+  withStore('readwrite', (store) => store.clear()).catch((error) =>
+    console.warn('Failed to clear photo history:', error)
+  );
+}
@@ -0,0 +1,114 @@
+import { readFileAsDataUrl } from '@/lib/screenshot';
+
+/**
+ * Photo shape returned by /api/unsplash and shown in ImagePane
+ */
+export interface UnsplashPhoto {
+  url: string;
+  photographer: string;
+  photographerUrl: string;
+  photoUrl: string;
+  description: string;
+  source?: string; // Where it came from, for the credit line (default: Unsplash)
+  sourceUrl?: string;
+}
+
+// Images from the local folder provider are served by this route
+export const LOCAL_IMAGE_ROUTE = '/api/image/local';
+
+export const PHOTO_ORIENTATIONS = ['landscape', 'portrait', 'squarish'] as const;
+export type PhotoOrientation = (typeof PHOTO_ORIENTATIONS)[number];
+
+// Unsplash's color filter values
+export const PHOTO_COLORS = [
+  'black_and_white',
+  'black',
+  'white',
+  'yellow',
+  'orange',
+  'red',
+  'purple',
+  'magenta',
+  'green',
+  'teal',
+  'blue',
+] as const;
+export type PhotoColor = (typeof PHOTO_COLORS)[number];
+
+// Unsplash topic slugs offered as quick picks in ImagePane
+export const PHOTO_TOPICS = [
+  { slug: 'nature', label: 'Nature' },
+  { slug: 'street-photography', label: 'Street' },
+  { slug: 'architecture-interior', label: 'Architecture' },
+  { slug: 'food-drink', label: 'Food' },
+  { slug: 'animals', label: 'Animals' },
+  { slug: 'people', label: 'People' },
+  { slug: 'travel', label: 'Travel' },
+  { slug: 'textures-patterns', label: 'Textures' },
+  { slug: 'business-work', label: 'Business' },
+];
+
+/**
+ * Narrow down the random photo from /api/unsplash (all optional)
+ */
+export interface PhotoFilters {
+  query?: string; // Free-text search, e.g. "street signs"
+  topic?: string; // Unsplash topic slug, e.g. "nature"
+  collection?: string; // Unsplash collection ID(s), comma separated
+  orientation?: PhotoOrientation;
+  color?: PhotoColor;
+}
+
+/**
+ * Fetch a random photo matching `filters` from /api/unsplash
+ */
+export async function fetchRandomPhoto(filters: PhotoFilters = {}): Promise<UnsplashPhoto> {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) {
+      params.set(key, value);
+    }
+  });
+  // Add timestamp to prevent caching
+  params.set('t', String(Date.now()));
+
+  const response = await fetch(`/api/unsplash?${params}`);
+  if (!response.ok) {
+    // Auth and rate limit rejections explain themselves
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to fetch photo');
+  }
+  return response.json();
+}
+
+/**
+ * Fetch a displayed photo as a data URL via the /api/image proxy
+ * (direct canvas access to the remote image would be blocked by CORS)
+ */
+export async function fetchPhotoAsDataUrl(photo: UnsplashPhoto): Promise<string> {
+  // Same-origin images (local folder, manifest paths) need no proxy
+  if (photo.url.startsWith('/')) {
+    const response = await fetch(photo.url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch photo: ${response.status}`);
+    }
+    return readFileAsDataUrl(await response.blob());
+  }
+
+  const response = await fetch(`/api/image?url=${encodeURIComponent(photo.url)}`);
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Failed to fetch photo: ${response.status}`);
+  }
+
+  const { dataUrl } = await response.json();
+  return dataUrl;
+}
+
+/**
+ * Describe a photo's metadata as text to accompany the image
+ */
+export function describePhotoMetadata(photo: UnsplashPhoto): string {
+  return `Photo metadata - Photographer: ${photo.photographer}. Description: ${photo.description}.`;
+}
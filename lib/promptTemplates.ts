@@ -0,0 +1,137 @@
+import type { UnsplashPhoto } from '@/lib/photos';
+
+/**
+ * Prompts sent with captured images and photos. `{{name}}` placeholders are
+ * filled from the photo shown in the image pane (see PROMPT_VARIABLES).
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  text: string;
+}
+
+export interface PromptTemplateSettings {
+  templates: PromptTemplate[];
+  selectedId: string; // Used for the next capture or photo
+}
+
+export const PROMPT_VARIABLES: { name: keyof UnsplashPhoto; label: string }[] = [
+  { name: 'description', label: 'Photo description' },
+  { name: 'photographer', label: 'Photographer' },
+  { name: 'photographerUrl', label: 'Photographer link' },
+  { name: 'photoUrl', label: 'Photo page link' },
+  { name: 'source', label: 'Photo source' },
+];
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'describe',
+    name: 'Describe',
+    text: 'Describe this image: the main subject, the setting, colors and mood.',
+  },
+  {
+    id: 'ocr',
+    name: 'Read text (OCR)',
+    text: 'Read out all text visible in this image exactly as written, line by line. If there is no text, say so.',
+  },
+  {
+    id: 'count',
+    name: 'Count objects',
+    text: 'Count the distinct objects in this image and list each kind with how many there are.',
+  },
+  {
+    id: 'alt-text',
+    name: 'Alt text',
+    text: 'Write alt text for this photo for a screen reader user, in one sentence under 125 characters. The photographer ({{photographer}}) captioned it "{{description}}".',
+  },
+  {
+    id: 'critique',
+    name: 'Critique composition',
+    text: 'Critique the composition of this photo by {{photographer}}: framing, balance, leading lines, light and focus. Suggest one improvement.',
+  },
+  {
+    id: 'compare',
+    name: 'Compare with previous',
+    text: 'Compare this image with the previous image in our conversation and describe what is different.',
+  },
+];
+
+const DEFAULT_SETTINGS: PromptTemplateSettings = {
+  templates: DEFAULT_PROMPT_TEMPLATES,
+  selectedId: 'describe',
+};
+
+const STORAGE_KEY = 'realtime-prompt-templates';
+
+export function getSelectedTemplate(settings: PromptTemplateSettings): PromptTemplate {
+  return (
+    settings.templates.find((template) => template.id === settings.selectedId) ??
+    settings.templates[0] ??
+    DEFAULT_PROMPT_TEMPLATES[0]
+  );
+}
+
+/**
+ * Fill `{{name}}` placeholders from the photo. Unknown names are left as typed.
+ */
+export function renderPromptTemplate(text: string, photo: UnsplashPhoto | null): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => {
+    if (!PROMPT_VARIABLES.some((variable) => variable.name === name)) {
+      return placeholder;
+    }
+    return photo?.[name as keyof UnsplashPhoto] || 'unknown';
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Persistence (localStorage-backed store for useSyncExternalStore)
+// ---------------------------------------------------------------------------
+
+let cachedSettings: PromptTemplateSettings | null = null;
+const listeners = new Set<() => void>();
+
+function loadPromptTemplateSettings(): PromptTemplateSettings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed: Partial<PromptTemplateSettings> = JSON.parse(stored);
+      return {
+        ...DEFAULT_SETTINGS,
+        ...parsed,
+        // Deleting every template falls back to the built-in ones
+        templates: parsed.templates?.length ? parsed.templates : DEFAULT_PROMPT_TEMPLATES,
+      };
+    }
+  } catch (error) {
+    console.warn('Failed to load prompt templates:', error);
+  }
+  return DEFAULT_SETTINGS;
+}
+
+export function getPromptTemplateSettings(): PromptTemplateSettings {
+  if (!cachedSettings) {
+    cachedSettings = loadPromptTemplateSettings();
+  }
+  return cachedSettings;
+}
+
+export function getServerPromptTemplateSettings(): PromptTemplateSettings {
+  return DEFAULT_SETTINGS;
+}
+
+export function subscribePromptTemplateSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function savePromptTemplateSettings(settings: PromptTemplateSettings): void {
+  cachedSettings = settings;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save prompt templates:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
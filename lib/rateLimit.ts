@@ -0,0 +1,84 @@
+/**
+ * In-memory token-bucket rate limiting, keyed per user or IP.
+ * State lives in the server process, so each instance limits separately.
+ */
+
+export interface RateLimitConfig {
+  capacity: number; // Burst size
+  refillPerMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // Time until the next token when not allowed
+}
+
+export interface RateLimiter {
+  take: (key: string) => RateLimitResult;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets untouched for this long are full again and can be dropped
+const BUCKET_IDLE_MS = 10 * 60 * 1000;
+
+export function createRateLimiter({ capacity, refillPerMinute }: RateLimitConfig): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = refillPerMinute / 60000;
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < BUCKET_IDLE_MS) {
+      return;
+    }
+    lastSweep = now;
+    buckets.forEach((bucket, key) => {
+      if (now - bucket.updatedAt > BUCKET_IDLE_MS) {
+        buckets.delete(key);
+      }
+    });
+  };
+
+  return {
+    take: (key) => {
+      const now = Date.now();
+      sweep(now);
+
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+      bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+
+      if (bucket.tokens < 1) {
+        return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+      }
+
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Shared limiter for Realtime session creation (SDP exchange and client secrets)
+ */
+export const sessionRateLimiter = createRateLimiter({
+  capacity: readNumber('SESSION_RATE_LIMIT_BURST', 5),
+  refillPerMinute: readNumber('SESSION_RATE_LIMIT_PER_MINUTE', 10),
+});
+
+/**
+ * Attempts at the shared-token login (brute force protection)
+ */
+export const loginRateLimiter = createRateLimiter({
+  capacity: readNumber('LOGIN_RATE_LIMIT_BURST', 5),
+  refillPerMinute: readNumber('LOGIN_RATE_LIMIT_PER_MINUTE', 5),
+});
@@ -0,0 +1,159 @@
+import type { SessionConfig } from '@/lib/realtimeEvents';
+
+export const REALTIME_MODEL = 'gpt-realtime';
+export const REALTIME_URL = `https://api.openai.com/v1/realtime?model=${REALTIME_MODEL}`;
+export const REALTIME_WS_URL = `wss://api.openai.com/v1/realtime?model=${REALTIME_MODEL}`;
+
+// Served by server.ts, which relays WebSocket sessions to REALTIME_WS_URL
+export const REALTIME_RELAY_PATH = '/api/realtime/ws';
+
+/**
+ * How the browser reaches OpenAI:
+ * - proxy: every SDP offer goes through /api/realtime/session with the server's API key
+ * - direct: the browser gets a short-lived client secret from /api/realtime/client-secret
+ *   and exchanges SDP with OpenAI itself
+ * - replay: no connection at all; recorded event logs are played back (see lib/replay.ts)
+ * - mock: a scripted server running in the browser answers the offer (see lib/mock/)
+ */
+export type ConnectionMode = 'proxy' | 'direct' | 'replay' | 'mock';
+
+const CONNECTION_MODES: ConnectionMode[] = ['proxy', 'direct', 'replay', 'mock'];
+
+export const DEFAULT_CONNECTION_MODE: ConnectionMode = CONNECTION_MODES.includes(
+  process.env.NEXT_PUBLIC_REALTIME_CONNECTION_MODE as ConnectionMode
+)
+  ? (process.env.NEXT_PUBLIC_REALTIME_CONNECTION_MODE as ConnectionMode)
+  : 'proxy';
+
+export interface ClientSecret {
+  value: string;
+  expiresAt: number; // ms since epoch
+}
+
+// Mint a new secret when the cached one has less than this left
+const CLIENT_SECRET_REFRESH_MARGIN_MS = 30 * 1000;
+
+export function isClientSecretFresh(secret: ClientSecret | null): secret is ClientSecret {
+  return !!secret && secret.expiresAt - Date.now() > CLIENT_SECRET_REFRESH_MARGIN_MS;
+}
+
+/**
+ * A failed session request. `source` tells our API routes (auth, rate limits)
+ * apart from OpenAI rejecting a client secret in direct mode.
+ */
+export class RealtimeRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public source: 'app' | 'openai',
+    public retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'RealtimeRequestError';
+  }
+}
+
+// Our routes answer with JSON `{ error, retryAfterMs? }` (upstream OpenAI failures
+// as 502). Anything else didn't come from them, so it can't be our auth or rate limit.
+async function toRequestError(response: Response): Promise<RealtimeRequestError> {
+  const text = await response.text().catch(() => '');
+  let body: { error?: string; retryAfterMs?: number } | null = null;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not JSON
+  }
+
+  if (typeof body?.error !== 'string') {
+    return new RealtimeRequestError(
+      `Session creation failed: ${response.status}${text ? ` - ${text.slice(0, 200)}` : ''}`,
+      response.status,
+      'openai'
+    );
+  }
+
+  const retryAfterSeconds = Number(response.headers.get('Retry-After')) || 0;
+  const retryAfterMs = body?.retryAfterMs ?? (retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : null);
+
+  return toAppError(response.status, body.error, retryAfterMs);
+}
+
+/**
+ * Error for a session our API refused, with friendly copy for auth and rate limits
+ */
+export function toAppError(
+  status: number,
+  detail: string,
+  retryAfterMs: number | null = null
+): RealtimeRequestError {
+  const message =
+    status === 401
+      ? 'Not authorized - sign in to use the assistant'
+      : status === 429
+        ? 'Too many sessions - rate limited'
+        : detail || `Session creation failed: ${status}`;
+
+  return new RealtimeRequestError(message, status, 'app', retryAfterMs);
+}
+
+/**
+ * Mint a client secret with the given session config baked in
+ */
+export async function fetchClientSecret(session: SessionConfig): Promise<ClientSecret> {
+  const response = await fetch('/api/realtime/client-secret', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ session }),
+  });
+
+  if (!response.ok) {
+    throw await toRequestError(response);
+  }
+
+  return response.json();
+}
+
+/**
+ * Exchange an SDP offer for OpenAI's answer, either via our server or directly
+ * with a client secret
+ */
+export async function exchangeSdp(offerSdp: string, clientSecret?: string): Promise<string> {
+  const response = clientSecret
+    ? await fetch(REALTIME_URL, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${clientSecret}`,
+          'Content-Type': 'application/sdp',
+        },
+        body: offerSdp,
+      })
+    : await fetch('/api/realtime/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: offerSdp,
+      });
+
+  if (!response.ok) {
+    if (clientSecret) {
+      throw new RealtimeRequestError(
+        `OpenAI rejected the session: ${response.status}`,
+        response.status,
+        'openai'
+      );
+    }
+    throw await toRequestError(response);
+  }
+
+  return response.text();
+}
+
+// ws(s)://<this origin>/api/realtime/ws
+export function getRelayUrl(): string {
+  const { protocol, host } = window.location;
+  return `${protocol === 'https:' ? 'wss' : 'ws'}://${host}${REALTIME_RELAY_PATH}`;
+}
+
+// Browsers can't set headers on a WebSocket, so OpenAI takes the secret as a subprotocol
+export function getDirectSocketProtocols(clientSecret: string): string[] {
+  return ['realtime', `openai-insecure-api-key.${clientSecret}`, 'openai-beta.realtime-v1'];
+}
@@ -0,0 +1,441 @@
+/**
+ * Typed event model for the OpenAI Realtime DataChannel.
+ * Server events arrive on `oai-events`; client events are sent through it.
+ */
+
+// ---------------------------------------------------------------------------
+// Shared shapes
+// ---------------------------------------------------------------------------
+
+export type Modality = 'text' | 'audio';
+
+export type ContentPart =
+  | { type: 'input_text'; text: string }
+  | { type: 'input_image'; image_url: string }
+  | { type: 'input_audio'; audio?: string; transcript?: string | null }
+  | { type: 'text'; text: string }
+  | { type: 'audio'; audio?: string; transcript?: string | null };
+
+export interface MessageItem {
+  id?: string;
+  object?: 'realtime.item';
+  type: 'message';
+  role: 'user' | 'assistant' | 'system';
+  status?: 'completed' | 'in_progress' | 'incomplete';
+  content: ContentPart[];
+}
+
+export interface FunctionCallItem {
+  id?: string;
+  object?: 'realtime.item';
+  type: 'function_call';
+  status?: 'completed' | 'in_progress' | 'incomplete';
+  call_id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface FunctionCallOutputItem {
+  id?: string;
+  object?: 'realtime.item';
+  type: 'function_call_output';
+  call_id: string;
+  output: string;
+}
+
+export type ConversationItem = MessageItem | FunctionCallItem | FunctionCallOutputItem;
+
+export interface TurnDetection {
+  type: 'server_vad' | 'semantic_vad';
+  threshold?: number;
+  prefix_padding_ms?: number;
+  silence_duration_ms?: number;
+  eagerness?: 'low' | 'medium' | 'high' | 'auto';
+  create_response?: boolean;
+  interrupt_response?: boolean;
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON schema
+}
+
+export interface SessionConfig {
+  id?: string;
+  model?: string;
+  modalities?: Modality[];
+  instructions?: string;
+  voice?: string;
+  input_audio_format?: 'pcm16' | 'g711_ulaw' | 'g711_alaw';
+  output_audio_format?: 'pcm16' | 'g711_ulaw' | 'g711_alaw';
+  input_audio_transcription?: { model: string; language?: string; prompt?: string } | null;
+  turn_detection?: TurnDetection | null;
+  tools?: ToolDefinition[];
+  tool_choice?: 'auto' | 'none' | 'required';
+  temperature?: number;
+  max_response_output_tokens?: number | 'inf';
+}
+
+export interface Usage {
+  total_tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+  input_token_details?: {
+    text_tokens?: number;
+    audio_tokens?: number;
+    image_tokens?: number;
+    cached_tokens?: number;
+    cached_tokens_details?: {
+      text_tokens?: number;
+      audio_tokens?: number;
+      image_tokens?: number;
+    };
+  };
+  output_token_details?: {
+    text_tokens?: number;
+    audio_tokens?: number;
+  };
+}
+
+export interface ApiError {
+  type: string;
+  code?: string | null;
+  message: string;
+  param?: string | null;
+  event_id?: string | null;
+}
+
+export interface Response {
+  id: string;
+  object?: 'realtime.response';
+  status: 'in_progress' | 'completed' | 'cancelled' | 'failed' | 'incomplete';
+  status_details?: {
+    type?: string;
+    reason?: string;
+    error?: ApiError;
+  } | null;
+  output: ConversationItem[];
+  modalities?: Modality[];
+  metadata?: Record<string, string> | null;
+  usage?: Usage | null;
+}
+
+export interface ResponseConfig {
+  modalities?: Modality[];
+  instructions?: string;
+  voice?: string;
+  conversation?: 'auto' | 'none';
+  metadata?: Record<string, string>;
+  input?: ConversationItem[];
+  tools?: ToolDefinition[];
+  tool_choice?: 'auto' | 'none' | 'required';
+  temperature?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Server events
+// ---------------------------------------------------------------------------
+
+interface EventBase<T extends string> {
+  type: T;
+  event_id?: string;
+}
+
+interface ResponsePartRef {
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+}
+
+export type ServerEvent =
+  | (EventBase<'error'> & { error: ApiError })
+  | (EventBase<'session.created'> & { session: SessionConfig })
+  | (EventBase<'session.updated'> & { session: SessionConfig })
+  | (EventBase<'conversation.item.created'> & {
+      previous_item_id?: string | null;
+      item: ConversationItem;
+    })
+  | (EventBase<'conversation.item.input_audio_transcription.delta'> & {
+      item_id: string;
+      content_index?: number;
+      delta: string;
+    })
+  | (EventBase<'conversation.item.input_audio_transcription.completed'> & {
+      item_id: string;
+      content_index?: number;
+      transcript: string;
+    })
+  | (EventBase<'conversation.item.input_audio_transcription.failed'> & {
+      item_id: string;
+      content_index?: number;
+      error: ApiError;
+    })
+  | (EventBase<'conversation.item.truncated'> & {
+      item_id: string;
+      content_index: number;
+      audio_end_ms: number;
+    })
+  | (EventBase<'conversation.item.deleted'> & { item_id: string })
+  | (EventBase<'input_audio_buffer.committed'> & {
+      previous_item_id?: string | null;
+      item_id: string;
+    })
+  | EventBase<'input_audio_buffer.cleared'>
+  | (EventBase<'input_audio_buffer.speech_started'> & {
+      audio_start_ms: number;
+      item_id: string;
+    })
+  | (EventBase<'input_audio_buffer.speech_stopped'> & {
+      audio_end_ms: number;
+      item_id: string;
+    })
+  | (EventBase<'output_audio_buffer.started'> & { response_id?: string })
+  | (EventBase<'output_audio_buffer.stopped'> & { response_id?: string })
+  | (EventBase<'output_audio_buffer.cleared'> & { response_id?: string })
+  | (EventBase<'output_audio_buffer.audio_added'> & { audio: string })
+  | (EventBase<'response.created'> & { response: Response })
+  | (EventBase<'response.done'> & { response: Response })
+  | (EventBase<'response.cancelled'> & { response_id?: string })
+  | (EventBase<'response.output_item.added'> & {
+      response_id: string;
+      output_index: number;
+      item: ConversationItem;
+    })
+  | (EventBase<'response.output_item.done'> & {
+      response_id: string;
+      output_index: number;
+      item: ConversationItem;
+    })
+  | (EventBase<'response.content_part.added'> & ResponsePartRef & { part: ContentPart })
+  | (EventBase<'response.content_part.done'> & ResponsePartRef & { part: ContentPart })
+  | (EventBase<'response.text.delta'> & ResponsePartRef & { delta: string })
+  | (EventBase<'response.text.done'> & ResponsePartRef & { text: string })
+  | (EventBase<'response.audio_transcript.delta'> & ResponsePartRef & { delta: string })
+  | (EventBase<'response.audio_transcript.done'> & ResponsePartRef & { transcript: string })
+  | (EventBase<'response.audio.delta'> & ResponsePartRef & { delta: string })
+  | (EventBase<'response.audio.done'> & ResponsePartRef)
+  | (EventBase<'response.function_call_arguments.delta'> & {
+      response_id: string;
+      item_id: string;
+      output_index: number;
+      call_id: string;
+      delta: string;
+    })
+  | (EventBase<'response.function_call_arguments.done'> & {
+      response_id: string;
+      item_id: string;
+      output_index: number;
+      call_id: string;
+      name?: string;
+      arguments: string;
+    })
+  | (EventBase<'rate_limits.updated'> & {
+      rate_limits: Array<{ name: string; limit: number; remaining: number; reset_seconds: number }>;
+    });
+
+export type ServerEventType = ServerEvent['type'];
+
+export type ServerEventOf<T extends ServerEventType> = Extract<ServerEvent, { type: T }>;
+
+export type ServerEventHandler<T extends ServerEventType = ServerEventType> = (
+  event: ServerEventOf<T>
+) => void;
+
+// ---------------------------------------------------------------------------
+// Client events
+// ---------------------------------------------------------------------------
+
+export type ClientEvent =
+  | (EventBase<'session.update'> & { session: SessionConfig })
+  | (EventBase<'input_audio_buffer.append'> & { audio: string })
+  | EventBase<'input_audio_buffer.commit'>
+  | EventBase<'input_audio_buffer.clear'>
+  | EventBase<'output_audio_buffer.clear'>
+  | (EventBase<'conversation.item.create'> & {
+      previous_item_id?: string | null;
+      item: ConversationItem;
+    })
+  | (EventBase<'conversation.item.truncate'> & {
+      item_id: string;
+      content_index: number;
+      audio_end_ms: number;
+    })
+  | (EventBase<'conversation.item.delete'> & { item_id: string })
+  | (EventBase<'response.create'> & { response?: ResponseConfig })
+  | (EventBase<'response.cancel'> & { response_id?: string });
+
+export type ClientEventType = ClientEvent['type'];
+
+export type EventDirection = 'server' | 'client';
+
+/**
+ * Sees every event on the DataChannel, in both directions (e.g. for recording)
+ */
+export type AnyEventHandler = (event: ServerEvent | ClientEvent, direction: EventDirection) => void;
+
+// ---------------------------------------------------------------------------
+// Runtime validation
+// ---------------------------------------------------------------------------
+
+// Required top-level fields per event type (optional fields are not checked)
+type FieldKind = 'string' | 'number' | 'object' | 'array';
+
+const PART_FIELDS: Record<string, FieldKind> = {
+  response_id: 'string',
+  item_id: 'string',
+  output_index: 'number',
+  content_index: 'number',
+};
+
+const SERVER_EVENT_FIELDS: { [T in ServerEventType]: Record<string, FieldKind> } = {
+  error: { error: 'object' },
+  'session.created': { session: 'object' },
+  'session.updated': { session: 'object' },
+  'conversation.item.created': { item: 'object' },
+  'conversation.item.input_audio_transcription.delta': { item_id: 'string', delta: 'string' },
+  'conversation.item.input_audio_transcription.completed': {
+    item_id: 'string',
+    transcript: 'string',
+  },
+  'conversation.item.input_audio_transcription.failed': { item_id: 'string', error: 'object' },
+  'conversation.item.truncated': {
+    item_id: 'string',
+    content_index: 'number',
+    audio_end_ms: 'number',
+  },
+  'conversation.item.deleted': { item_id: 'string' },
+  'input_audio_buffer.committed': { item_id: 'string' },
+  'input_audio_buffer.cleared': {},
+  'input_audio_buffer.speech_started': { audio_start_ms: 'number', item_id: 'string' },
+  'input_audio_buffer.speech_stopped': { audio_end_ms: 'number', item_id: 'string' },
+  'output_audio_buffer.started': {},
+  'output_audio_buffer.stopped': {},
+  'output_audio_buffer.cleared': {},
+  'output_audio_buffer.audio_added': { audio: 'string' },
+  'response.created': { response: 'object' },
+  'response.done': { response: 'object' },
+  'response.cancelled': {},
+  'response.output_item.added': { response_id: 'string', item: 'object' },
+  'response.output_item.done': { response_id: 'string', item: 'object' },
+  'response.content_part.added': { ...PART_FIELDS, part: 'object' },
+  'response.content_part.done': { ...PART_FIELDS, part: 'object' },
+  'response.text.delta': { ...PART_FIELDS, delta: 'string' },
+  'response.text.done': { ...PART_FIELDS, text: 'string' },
+  'response.audio_transcript.delta': { ...PART_FIELDS, delta: 'string' },
+  'response.audio_transcript.done': { ...PART_FIELDS, transcript: 'string' },
+  'response.audio.delta': { ...PART_FIELDS, delta: 'string' },
+  'response.audio.done': PART_FIELDS,
+  'response.function_call_arguments.delta': {
+    response_id: 'string',
+    item_id: 'string',
+    call_id: 'string',
+    delta: 'string',
+  },
+  'response.function_call_arguments.done': {
+    response_id: 'string',
+    item_id: 'string',
+    call_id: 'string',
+    arguments: 'string',
+  },
+  'rate_limits.updated': { rate_limits: 'array' },
+};
+
+const CLIENT_EVENT_FIELDS: { [T in ClientEventType]: Record<string, FieldKind> } = {
+  'session.update': { session: 'object' },
+  'input_audio_buffer.append': { audio: 'string' },
+  'input_audio_buffer.commit': {},
+  'input_audio_buffer.clear': {},
+  'output_audio_buffer.clear': {},
+  'conversation.item.create': { item: 'object' },
+  'conversation.item.truncate': {
+    item_id: 'string',
+    content_index: 'number',
+    audio_end_ms: 'number',
+  },
+  'conversation.item.delete': { item_id: 'string' },
+  'response.create': {},
+  'response.cancel': {},
+};
+
+export const SERVER_EVENT_TYPES = Object.keys(SERVER_EVENT_FIELDS) as ServerEventType[];
+
+function matchesKind(value: unknown, kind: FieldKind): boolean {
+  if (kind === 'array') {
+    return Array.isArray(value);
+  }
+  if (kind === 'object') {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+  return typeof value === kind;
+}
+
+// Returns a description of the first problem, or null when the event is well formed
+function findProblem(
+  value: unknown,
+  schema: Record<string, Record<string, FieldKind>>
+): string | null {
+  if (typeof value !== 'object' || value === null) {
+    return 'event is not an object';
+  }
+
+  const event = value as Record<string, unknown>;
+  if (typeof event.type !== 'string') {
+    return 'event has no type';
+  }
+
+  const fields = Object.prototype.hasOwnProperty.call(schema, event.type)
+    ? schema[event.type]
+    : undefined;
+  if (!fields) {
+    return `unknown event type "${event.type}"`;
+  }
+
+  for (const [field, kind] of Object.entries(fields)) {
+    if (!matchesKind(event[field], kind)) {
+      return `${event.type} is missing ${kind} field "${field}"`;
+    }
+  }
+
+  return null;
+}
+
+function isKnownServerEventType(type: string): type is ServerEventType {
+  return Object.prototype.hasOwnProperty.call(SERVER_EVENT_FIELDS, type);
+}
+
+/**
+ * Parse and validate a raw DataChannel frame.
+ * Throws when the frame is not JSON, has no type or a known type lacks required
+ * fields. Event types added to the API after this table are passed through
+ * unvalidated: no typed handler matches them, but event taps still see them.
+ */
+export function parseServerEvent(raw: string): ServerEvent {
+  const value: unknown = JSON.parse(raw);
+  if (typeof value === 'object' && value !== null) {
+    const { type } = value as { type?: unknown };
+    if (typeof type === 'string' && !isKnownServerEventType(type)) {
+      console.debug('Passing through unknown server event:', type);
+      return value as ServerEvent;
+    }
+  }
+
+  const problem = findProblem(value, SERVER_EVENT_FIELDS);
+  if (problem) {
+    throw new Error(`Malformed server event: ${problem}`);
+  }
+  return value as ServerEvent;
+}
+
+/**
+ * Assert that an outgoing event is a known client event shape.
+ * Guards against untyped callers bypassing the ClientEvent union.
+ */
+export function assertClientEvent(value: unknown): asserts value is ClientEvent {
+  const problem = findProblem(value, CLIENT_EVENT_FIELDS);
+  if (problem) {
+    throw new Error(`Invalid client event: ${problem}`);
+  }
+}
@@ -0,0 +1,109 @@
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { NextRequest } from 'next/server';
+import { WebSocket, WebSocketServer, type RawData } from 'ws';
+import { checkApiAccess } from '@/lib/apiGuard';
+import { sessionRateLimiter } from '@/lib/rateLimit';
+import { REALTIME_WS_URL } from '@/lib/realtimeConnection';
+
+// Mirrors the close codes lib/websocketTransport.ts turns back into RealtimeRequestErrors
+const APP_CLOSE_CODE_BASE = 4000;
+
+const relayServer = new WebSocketServer({ noServer: true });
+
+function toNextRequest(request: IncomingMessage): NextRequest {
+  const headers = new Headers();
+  Object.entries(request.headers).forEach(([name, value]) => {
+    if (value !== undefined) {
+      headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+    }
+  });
+  return new NextRequest(new URL(request.url ?? '/', `http://${request.headers.host ?? 'localhost'}`), {
+    headers,
+  });
+}
+
+// Pipe frames both ways; client frames sent before OpenAI accepts us are queued
+function relay(client: WebSocket, apiKey: string) {
+  const upstream = new WebSocket(REALTIME_WS_URL, {
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'OpenAI-Beta': 'realtime=v1',
+    },
+  });
+  const pending: string[] = [];
+
+  client.on('message', (data: RawData) => {
+    const text = data.toString();
+    if (upstream.readyState === WebSocket.OPEN) {
+      upstream.send(text);
+    } else {
+      pending.push(text);
+    }
+  });
+
+  upstream.on('open', () => {
+    console.log('🔀 Relay connected to OpenAI');
+    pending.splice(0).forEach((text) => upstream.send(text));
+  });
+
+  upstream.on('message', (data: RawData) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(data.toString());
+    }
+  });
+
+  upstream.on('unexpected-response', (_request, response) => {
+    console.error('OpenAI refused the relay connection:', response.statusCode);
+    client.close(1011, `OpenAI refused the connection (${response.statusCode})`);
+    upstream.terminate();
+  });
+
+  upstream.on('error', (error) => {
+    console.error('Relay upstream error:', error);
+    if (client.readyState === WebSocket.OPEN) {
+      client.close(1011, 'Upstream error');
+    }
+  });
+
+  upstream.on('close', (code, reason) => {
+    console.log('🔀 OpenAI closed the relay:', code, reason.toString());
+    if (client.readyState === WebSocket.OPEN) {
+      // 1005/1006 can't be sent in a close frame
+      client.close(code === 1005 || code === 1006 ? 1011 : code, reason.toString());
+    }
+  });
+
+  client.on('close', () => {
+    if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) {
+      upstream.close();
+    }
+  });
+}
+
+/**
+ * Upgrade handler for /api/realtime/ws: applies the same auth and session rate
+ * limit as the HTTP routes, then relays frames to the Realtime WebSocket endpoint.
+ * Refusals complete the upgrade and close with 4000 + HTTP status, because
+ * browsers hide the status of a failed handshake.
+ */
+export function handleRelayUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer) {
+  const rejection = checkApiAccess(toNextRequest(request), { rateLimiter: sessionRateLimiter });
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  relayServer.handleUpgrade(request, socket, head, async (client) => {
+    if (rejection) {
+      const { error, retryAfterMs } = await rejection.json();
+      client.close(APP_CLOSE_CODE_BASE + rejection.status, JSON.stringify({ error, retryAfterMs }));
+      return;
+    }
+    if (!apiKey) {
+      console.error('OPENAI_API_KEY not configured');
+      client.close(APP_CLOSE_CODE_BASE + 500, JSON.stringify({ error: 'Server configuration error' }));
+      return;
+    }
+
+    console.log('🔀 Relaying Realtime WebSocket session');
+    relay(client, apiKey);
+  });
+}
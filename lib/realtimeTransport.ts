@@ -0,0 +1,37 @@
+/**
+ * Transport abstraction for useRealtime. A transport moves JSON events and mic
+ * audio between the browser and the Realtime server; the hook owns everything
+ * else (session config, reconnects, playback, event handling).
+ * - webrtc: RTCPeerConnection with the oai-events DataChannel (lib/webrtcTransport.ts)
+ * - websocket: JSON over a WebSocket, mic audio sent as input_audio_buffer.append
+ *   (lib/websocketTransport.ts) - works where UDP/STUN is blocked
+ */
+
+export type TransportKind = 'webrtc' | 'websocket';
+
+const TRANSPORT_KINDS: TransportKind[] = ['webrtc', 'websocket'];
+
+export const DEFAULT_TRANSPORT: TransportKind = TRANSPORT_KINDS.includes(
+  process.env.NEXT_PUBLIC_REALTIME_TRANSPORT as TransportKind
+)
+  ? (process.env.NEXT_PUBLIC_REALTIME_TRANSPORT as TransportKind)
+  : 'webrtc';
+
+export interface TransportCallbacks {
+  onOpen: () => void; // Ready to send events
+  onMessage: (data: string) => void;
+  onClose: (reason: string) => void; // Dropped after connect() resolved
+  onStateChange: (state: RTCPeerConnectionState) => void;
+  onRemoteStream?: (stream: MediaStream) => void; // Assistant audio as a media track (WebRTC only)
+}
+
+export interface RealtimeTransport {
+  readonly kind: TransportKind;
+  // Rejects with RealtimeRequestError when our API refuses the connection
+  connect: () => Promise<void>;
+  send: (data: string) => void;
+  isOpen: () => boolean;
+  // Start or stop streaming a mic track; null detaches without renegotiating
+  setMicTrack: (track: MediaStreamTrack | null) => Promise<void>;
+  close: () => void;
+}
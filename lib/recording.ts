@@ -0,0 +1,124 @@
+/**
+ * Session recording formats: JSONL event log, Markdown transcript and WAV audio
+ */
+
+import type { ClientEvent, EventDirection, ServerEvent } from '@/lib/realtimeEvents';
+import { initialTranscriptState, transcriptReducer } from '@/lib/transcript';
+
+/**
+ * One line of the JSONL event log
+ */
+export interface RecordedEvent {
+  timestamp: number; // Date.now() when sent or received
+  direction: EventDirection;
+  event: ServerEvent | ClientEvent;
+}
+
+export function toJsonl(events: RecordedEvent[]): string {
+  return events.map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString();
+}
+
+/**
+ * Rebuild the transcript from recorded events, with sent images embedded
+ * as data URLs so the file stands on its own
+ */
+export function toMarkdown(events: RecordedEvent[]): string {
+  let transcript = initialTranscriptState;
+  const firstSeen: Record<string, number> = {};
+  const images: Record<string, string[]> = {};
+
+  events.forEach(({ timestamp, direction, event }) => {
+    if (direction === 'client') {
+      // The server doesn't echo image data back, so take images from what we sent
+      if (event.type === 'conversation.item.create' && event.item.type === 'message' && event.item.id) {
+        const urls = event.item.content.flatMap((part) =>
+          part.type === 'input_image' ? [part.image_url] : []
+        );
+        if (urls.length > 0) {
+          images[event.item.id] = urls;
+        }
+      }
+      return;
+    }
+
+    transcript = transcriptReducer(transcript, event as ServerEvent);
+    transcript.order.forEach((id) => {
+      firstSeen[id] ??= timestamp;
+    });
+  });
+
+  const start = events[0]?.timestamp ?? Date.now();
+  const lines = [`# Realtime session - ${new Date(start).toLocaleString()}`, ''];
+
+  transcript.order.forEach((id) => {
+    const turn = transcript.turns[id];
+    const speaker = turn.role === 'user' ? 'User' : 'Assistant';
+    lines.push(`### ${speaker} · ${formatTime(firstSeen[id] ?? start)}`, '');
+
+    if (turn.text) {
+      lines.push(turn.text, '');
+    }
+    (images[id] ?? []).forEach((url, index) => {
+      lines.push(`![Image ${index + 1}](${url})`, '');
+    });
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Encode mono 16-bit PCM chunks as a WAV file
+ */
+export function encodeWav(chunks: Int16Array[], sampleRate: number): Blob {
+  const sampleCount = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const dataSize = sampleCount * 2;
+  const header = new DataView(new ArrayBuffer(44));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      header.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Byte rate
+  header.setUint16(32, 2, true); // Block align
+  header.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, dataSize, true);
+
+  // WAV is little-endian, like every platform browsers run on
+  return new Blob([header.buffer, ...chunks.map((chunk) => chunk.slice().buffer)], {
+    type: 'audio/wav',
+  });
+}
+
+export function floatToPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return pcm;
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the download a moment to start before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
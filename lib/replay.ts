@@ -0,0 +1,103 @@
+/**
+ * Replay recorded JSONL event logs (see lib/recording.ts) without a connection
+ */
+
+import { parseServerEvent, type ServerEvent } from '@/lib/realtimeEvents';
+import type { RecordedEvent } from '@/lib/recording';
+
+export interface ReplayEvent {
+  offsetMs: number; // Time since the first event in the log
+  event: ServerEvent;
+}
+
+export interface ReplayOptions {
+  speed?: number; // 1 = original timing, 2 = twice as fast, Infinity = no delays
+  onEvent: (event: ServerEvent) => void;
+  onDone?: () => void;
+}
+
+export const REPLAY_SPEEDS = [1, 2, 4, Infinity];
+
+/**
+ * Parse a JSONL log, keeping only server events (client events are what the
+ * app sent; sending is blocked while a replay runs).
+ * Throws with the line number on malformed lines.
+ */
+export function parseEventLog(text: string): ReplayEvent[] {
+  const events: ReplayEvent[] = [];
+  let firstTimestamp: number | null = null;
+
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    let entry: RecordedEvent;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1}: not valid JSON`);
+    }
+
+    if (typeof entry.timestamp !== 'number') {
+      throw new Error(`Line ${index + 1}: missing timestamp`);
+    }
+    firstTimestamp ??= entry.timestamp;
+    if (entry.direction !== 'server') {
+      return;
+    }
+
+    try {
+      events.push({
+        offsetMs: entry.timestamp - firstTimestamp,
+        event: parseServerEvent(JSON.stringify(entry.event)),
+      });
+    } catch (error) {
+      throw new Error(`Line ${index + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+
+  return events;
+}
+
+/**
+ * Feed events to onEvent with their original spacing divided by speed.
+ * Events are always delivered in order; returns a function that stops the replay.
+ */
+export function startReplay(
+  events: ReplayEvent[],
+  { speed = 1, onEvent, onDone }: ReplayOptions
+): () => void {
+  let index = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const next = () => {
+    if (stopped) {
+      return;
+    }
+    if (index >= events.length) {
+      onDone?.();
+      return;
+    }
+
+    onEvent(events[index].event);
+    index++;
+
+    if (index < events.length) {
+      const gap = (events[index].offsetMs - events[index - 1].offsetMs) / speed;
+      timer = setTimeout(next, Number.isFinite(gap) ? Math.max(gap, 0) : 0);
+    } else {
+      onDone?.();
+    }
+  };
+
+  timer = setTimeout(next, 0);
+
+  return () => {
+    stopped = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
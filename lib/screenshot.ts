@@ -71,6 +71,94 @@ export async function captureScreenshot(): Promise<string> {
   }
 }
 
+/**
+ * Region of interest as fractions (0-1) of the video's width and height,
+ * so it stays valid if the stream's resolution changes
+ */
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Convert a fractional crop region to pixel coordinates for a given frame size
+ */
+export function cropRegionToPixels(
+  region: CropRegion | null | undefined,
+  frameWidth: number,
+  frameHeight: number
+): { sx: number; sy: number; sw: number; sh: number } {
+  if (!region) {
+    return { sx: 0, sy: 0, sw: frameWidth, sh: frameHeight };
+  }
+
+  const sx = Math.round(Math.min(Math.max(region.x, 0), 1) * frameWidth);
+  const sy = Math.round(Math.min(Math.max(region.y, 0), 1) * frameHeight);
+  return {
+    sx,
+    sy,
+    sw: Math.max(1, Math.min(Math.round(region.width * frameWidth), frameWidth - sx)),
+    sh: Math.max(1, Math.min(Math.round(region.height * frameHeight), frameHeight - sy)),
+  };
+}
+
+/**
+ * Capture a single frame from an existing screen share stream
+ * Reuses the stream, so no permission prompt is shown
+ */
+export async function captureFromStream(
+  stream: MediaStream,
+  region?: CropRegion | null
+): Promise<string> {
+  const video = document.createElement('video');
+  video.srcObject = stream;
+  video.muted = true;
+
+  return new Promise((resolve, reject) => {
+    video.onloadedmetadata = () => {
+      video.play();
+
+      requestAnimationFrame(() => {
+        try {
+          const dataUrl = videoFrameToDataUrl(video, region);
+          video.remove();
+          resolve(dataUrl);
+        } catch (error) {
+          video.remove();
+          reject(error);
+        }
+      });
+    };
+
+    video.onerror = (error) => {
+      video.remove();
+      reject(error);
+    };
+  });
+}
+
+/**
+ * Draw the current frame of a playing video to a PNG data URL,
+ * optionally cropped to a region of interest
+ */
+export function videoFrameToDataUrl(video: HTMLVideoElement, region?: CropRegion | null): string {
+  const { sx, sy, sw, sh } = cropRegionToPixels(region, video.videoWidth, video.videoHeight);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = sw;
+  canvas.height = sh;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.drawImage(video, sx, sy, sw, sh, 0, 0, sw, sh);
+  return canvas.toDataURL('image/png', 0.8);
+}
+
 /**
  * Optimize image size if it exceeds maxSize
  * Reduces quality or dimensions to fit within limit
@@ -116,3 +204,15 @@ export async function optimizeImage(
     img.src = dataUrl;
   });
 }
+
+/**
+ * Read an image file (upload, drop or paste) or fetched blob as a data URL
+ */
+export function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsDataURL(file);
+  });
+}
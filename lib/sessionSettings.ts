@@ -0,0 +1,206 @@
+import type { SessionConfig } from '@/lib/realtimeEvents';
+
+export type TurnDetectionMode = 'server_vad' | 'semantic_vad' | 'none';
+
+export interface SessionSettings {
+  voice: string;
+  instructions: string;
+  turnDetection: TurnDetectionMode;
+  vadThreshold: number;
+  prefixPaddingMs: number;
+  silenceDurationMs: number;
+  eagerness: 'low' | 'medium' | 'high' | 'auto';
+  transcriptionModel: string;
+  temperature: number;
+}
+
+export const VOICES = [
+  'alloy',
+  'ash',
+  'ballad',
+  'coral',
+  'echo',
+  'sage',
+  'shimmer',
+  'verse',
+  'marin',
+  'cedar',
+];
+
+export const TRANSCRIPTION_MODELS = [
+  'whisper-1',
+  'gpt-4o-transcribe',
+  'gpt-4o-mini-transcribe',
+];
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  voice: 'alloy',
+  instructions:
+    'You are a helpful AI assistant. Be concise and friendly. When shown an image, describe the key elements first.',
+  turnDetection: 'server_vad',
+  vadThreshold: 0.5,
+  prefixPaddingMs: 300,
+  silenceDurationMs: 500,
+  eagerness: 'auto',
+  transcriptionModel: 'whisper-1',
+  temperature: 0.8,
+};
+
+const STORAGE_KEY = 'realtime-session-settings';
+
+/**
+ * Build a full session.update payload from the user-facing settings
+ */
+export function buildSessionConfig(settings: SessionSettings): SessionConfig {
+  let turnDetection: SessionConfig['turn_detection'] = null;
+
+  if (settings.turnDetection === 'server_vad') {
+    turnDetection = {
+      type: 'server_vad',
+      threshold: settings.vadThreshold,
+      prefix_padding_ms: settings.prefixPaddingMs,
+      silence_duration_ms: settings.silenceDurationMs,
+      create_response: true,
+    };
+  } else if (settings.turnDetection === 'semantic_vad') {
+    turnDetection = {
+      type: 'semantic_vad',
+      eagerness: settings.eagerness,
+      create_response: true,
+    };
+  }
+
+  return {
+    modalities: ['audio', 'text'], // Order matters: audio first for voice responses
+    instructions: settings.instructions,
+    voice: settings.voice,
+    input_audio_format: 'pcm16',
+    output_audio_format: 'pcm16',
+    input_audio_transcription: {
+      model: settings.transcriptionModel,
+    },
+    turn_detection: turnDetection,
+    temperature: settings.temperature,
+  };
+}
+
+/**
+ * Return only the top-level session fields that changed, or null if nothing did
+ */
+export function diffSessionConfig(
+  previous: SessionConfig,
+  next: SessionConfig
+): SessionConfig | null {
+  const patch: Record<string, unknown> = {};
+
+  for (const key of Object.keys(next) as Array<keyof SessionConfig>) {
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      patch[key] = next[key];
+    }
+  }
+
+  return Object.keys(patch).length > 0 ? (patch as SessionConfig) : null;
+}
+
+// "function:get_photo_metadata" - the server rewrites tool schemas (key order,
+// defaults), so tools are identified by type and name only
+function toolKeys(tools: unknown[]): string[] {
+  return tools.map((tool) => {
+    const { type, name } = (tool ?? {}) as { type?: unknown; name?: unknown };
+    return `${type}:${name}`;
+  });
+}
+
+function sameSet(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value) => b.includes(value));
+}
+
+function matchesPatch(patch: unknown, session: unknown, field?: string): boolean {
+  if (Array.isArray(patch)) {
+    if (!Array.isArray(session)) {
+      return false;
+    }
+    if (field === 'tools') {
+      return sameSet(toolKeys(patch), toolKeys(session));
+    }
+    if (field === 'modalities') {
+      return sameSet(patch.map(String), session.map(String));
+    }
+    return (
+      patch.length === session.length &&
+      patch.every((value, index) => matchesPatch(value, session[index]))
+    );
+  }
+  if (patch === null || typeof patch !== 'object') {
+    // Compare numbers loosely - the server may round thresholds
+    if (typeof patch === 'number' && typeof session === 'number') {
+      return Math.abs(patch - session) < 1e-6;
+    }
+    return JSON.stringify(patch) === JSON.stringify(session);
+  }
+  if (session === null || typeof session !== 'object' || Array.isArray(session)) {
+    return false;
+  }
+
+  return Object.entries(patch).every(([key, value]) =>
+    matchesPatch(value, (session as Record<string, unknown>)[key], key)
+  );
+}
+
+/**
+ * Check that every field we asked for is reflected in the server's session.
+ * The server may add fields of its own (e.g. idle timeouts), so extras are
+ * ignored, also inside array elements. `tools` match by type and name and
+ * `modalities` in any order.
+ */
+export function sessionMatchesPatch(patch: SessionConfig, session: SessionConfig): boolean {
+  return matchesPatch(patch, session);
+}
+
+// ---------------------------------------------------------------------------
+// Persistence (localStorage-backed store for useSyncExternalStore)
+// ---------------------------------------------------------------------------
+
+let cachedSettings: SessionSettings | null = null;
+const listeners = new Set<() => void>();
+
+function loadSessionSettings(): SessionSettings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      // Merge over defaults so newly added settings get sane values
+      return { ...DEFAULT_SESSION_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Failed to load session settings:', error);
+  }
+  return DEFAULT_SESSION_SETTINGS;
+}
+
+export function getSessionSettings(): SessionSettings {
+  if (!cachedSettings) {
+    cachedSettings = loadSessionSettings();
+  }
+  return cachedSettings;
+}
+
+export function getServerSessionSettings(): SessionSettings {
+  return DEFAULT_SESSION_SETTINGS;
+}
+
+export function subscribeSessionSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function saveSessionSettings(settings: SessionSettings): void {
+  cachedSettings = settings;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save session settings:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
@@ -0,0 +1,74 @@
+import type { SessionConfig, ToolDefinition } from '@/lib/realtimeEvents';
+
+/**
+ * A function the model can call during a Realtime session
+ */
+export interface RealtimeTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON schema for the arguments object
+  handler: (args: Record<string, unknown>) => Promise<unknown> | unknown;
+}
+
+/**
+ * Schema for tools that take no arguments
+ */
+export const NO_PARAMETERS = {
+  type: 'object',
+  properties: {},
+  additionalProperties: false,
+};
+
+export function toToolDefinition(tool: RealtimeTool): ToolDefinition {
+  return {
+    type: 'function',
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+  };
+}
+
+/**
+ * Register tools in a session config (no-op when there are none)
+ */
+export function withTools(config: SessionConfig, tools: RealtimeTool[]): SessionConfig {
+  if (tools.length === 0) {
+    return config;
+  }
+  return {
+    ...config,
+    tools: tools.map(toToolDefinition),
+    tool_choice: 'auto',
+  };
+}
+
+/**
+ * Run a tool and serialize its result (or error) for a function_call_output item
+ */
+export async function runTool(
+  tools: RealtimeTool[],
+  name: string,
+  rawArguments: string
+): Promise<string> {
+  const tool = tools.find((t) => t.name === name);
+  if (!tool) {
+    return JSON.stringify({ error: `Unknown tool: ${name}` });
+  }
+
+  let args: Record<string, unknown>;
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+  } catch {
+    return JSON.stringify({ error: 'Arguments were not valid JSON' });
+  }
+
+  try {
+    const result = await tool.handler(args);
+    return JSON.stringify(result ?? { ok: true });
+  } catch (error) {
+    console.error(`Tool ${name} failed:`, error);
+    return JSON.stringify({
+      error: error instanceof Error ? error.message : 'Tool failed',
+    });
+  }
+}
@@ -0,0 +1,187 @@
+import type { ConversationItem, ServerEvent, ServerEventType } from '@/lib/realtimeEvents';
+
+export type TranscriptRole = 'user' | 'assistant';
+
+export interface TranscriptTurn {
+  id: string; // Conversation item ID
+  role: TranscriptRole;
+  text: string;
+  isFinal: boolean;
+  timestamp: number;
+}
+
+export interface TranscriptState {
+  order: string[]; // Item IDs in conversation order
+  turns: Record<string, TranscriptTurn>;
+}
+
+export const initialTranscriptState: TranscriptState = {
+  order: [],
+  turns: {},
+};
+
+/**
+ * Server events that affect the transcript
+ */
+export const TRANSCRIPT_EVENT_TYPES: ServerEventType[] = [
+  'conversation.item.created',
+  'conversation.item.input_audio_transcription.completed',
+  'conversation.item.input_audio_transcription.failed',
+  'response.output_item.added',
+  'response.audio_transcript.delta',
+  'response.text.delta',
+  'response.done',
+];
+
+/**
+ * Create a client-side conversation item ID (max 32 chars per the Realtime API)
+ */
+export function createItemId(prefix = 'item'): string {
+  const random = Math.random().toString(36).substring(2, 10);
+  return `${prefix}_${Date.now().toString(36)}${random}`.substring(0, 32);
+}
+
+/**
+ * Prefix for turns re-sent as context after a reconnect. The transcript
+ * already shows them, so their echoed items are skipped.
+ */
+export const CONTEXT_ITEM_PREFIX = 'ctx';
+
+export function isContextItemId(id: string): boolean {
+  return id.startsWith(`${CONTEXT_ITEM_PREFIX}_`);
+}
+
+/**
+ * Pull any text already present on an item (typed text or a finished transcript)
+ */
+export function textFromItem(item: ConversationItem): string {
+  if (item.type !== 'message') {
+    return '';
+  }
+  return item.content
+    .map((part) => ('text' in part ? part.text : 'transcript' in part ? part.transcript ?? '' : ''))
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Insert a turn after previousId when known, otherwise append
+function insertTurn(
+  state: TranscriptState,
+  turn: TranscriptTurn,
+  previousId?: string | null
+): TranscriptState {
+  if (state.turns[turn.id]) {
+    return state;
+  }
+
+  const order = [...state.order];
+  const previousIndex = previousId ? order.indexOf(previousId) : -1;
+  if (previousIndex >= 0) {
+    order.splice(previousIndex + 1, 0, turn.id);
+  } else {
+    order.push(turn.id);
+  }
+
+  return { order, turns: { ...state.turns, [turn.id]: turn } };
+}
+
+function updateTurn(
+  state: TranscriptState,
+  id: string,
+  role: TranscriptRole,
+  update: (turn: TranscriptTurn) => Partial<TranscriptTurn>
+): TranscriptState {
+  // Events can arrive before the item itself - create a placeholder turn
+  const withTurn = insertTurn(state, {
+    id,
+    role,
+    text: '',
+    isFinal: false,
+    timestamp: Date.now(),
+  });
+  const turn = withTurn.turns[id];
+
+  return {
+    ...withTurn,
+    turns: { ...withTurn.turns, [id]: { ...turn, ...update(turn) } },
+  };
+}
+
+function addItem(
+  state: TranscriptState,
+  item: ConversationItem,
+  previousId?: string | null
+): TranscriptState {
+  if (!item.id || item.type !== 'message' || isContextItemId(item.id)) {
+    return state;
+  }
+  if (item.role !== 'user' && item.role !== 'assistant') {
+    return state;
+  }
+
+  const text = textFromItem(item);
+  const hasAudio = item.content.some((part) => part.type === 'input_audio');
+
+  return insertTurn(
+    state,
+    {
+      id: item.id,
+      role: item.role,
+      text,
+      // Typed/image user turns are final immediately; audio waits for transcription
+      isFinal: item.role === 'user' ? !hasAudio || !!text : false,
+      timestamp: Date.now(),
+    },
+    previousId
+  );
+}
+
+/**
+ * Fold a Realtime server event into the transcript.
+ * Turns are keyed by conversation item ID so interleaved events land on the right turn.
+ */
+export function transcriptReducer(
+  state: TranscriptState,
+  event: ServerEvent
+): TranscriptState {
+  switch (event.type) {
+    case 'conversation.item.created':
+      return addItem(state, event.item, event.previous_item_id);
+
+    case 'response.output_item.added':
+      return addItem(state, event.item);
+
+    case 'conversation.item.input_audio_transcription.completed':
+      return updateTurn(state, event.item_id, 'user', () => ({
+        text: event.transcript.trim(),
+        isFinal: true,
+      }));
+
+    case 'conversation.item.input_audio_transcription.failed':
+      return updateTurn(state, event.item_id, 'user', (turn) => ({
+        text: turn.text || '(transcription unavailable)',
+        isFinal: true,
+      }));
+
+    case 'response.audio_transcript.delta':
+    case 'response.text.delta':
+      return updateTurn(state, event.item_id, 'assistant', (turn) => ({
+        text: turn.text + event.delta,
+      }));
+
+    case 'response.done':
+      return (event.response.output ?? []).reduce((next, item) => {
+        if (!item.id || !next.turns[item.id]) {
+          return next;
+        }
+        return updateTurn(next, item.id, 'assistant', (turn) => ({
+          // Prefer the streamed text, fall back to the final transcript
+          text: turn.text || textFromItem(item),
+          isFinal: true,
+        }));
+      }, state);
+
+    default:
+      return state;
+  }
+}
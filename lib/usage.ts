@@ -0,0 +1,198 @@
+/**
+ * Token usage and cost accounting from response.done `usage` blocks
+ */
+
+import type { Response, Usage } from '@/lib/realtimeEvents';
+
+// What a response was answering; set via response.create metadata (`kind`)
+export type ResponseKind = 'voice' | 'image' | 'tool';
+
+export const RESPONSE_KINDS: ResponseKind[] = ['voice', 'image', 'tool'];
+
+export const RESPONSE_KIND_LABELS: Record<ResponseKind, string> = {
+  voice: 'Voice turns',
+  image: 'Image analysis',
+  tool: 'Tool follow-ups',
+};
+
+/**
+ * USD per 1M tokens
+ */
+export interface PriceTable {
+  textInput: number;
+  cachedTextInput: number;
+  audioInput: number;
+  cachedAudioInput: number;
+  imageInput: number;
+  cachedImageInput: number;
+  textOutput: number;
+  audioOutput: number;
+}
+
+// gpt-realtime list prices
+export const DEFAULT_PRICES: PriceTable = {
+  textInput: 4,
+  cachedTextInput: 0.4,
+  audioInput: 32,
+  cachedAudioInput: 0.4,
+  imageInput: 5,
+  cachedImageInput: 0.5,
+  textOutput: 16,
+  audioOutput: 64,
+};
+
+/**
+ * Prices from NEXT_PUBLIC_REALTIME_PRICES (partial JSON PriceTable) over the defaults
+ */
+export function getPriceTable(): PriceTable {
+  const override = process.env.NEXT_PUBLIC_REALTIME_PRICES;
+  if (!override) {
+    return DEFAULT_PRICES;
+  }
+  try {
+    return { ...DEFAULT_PRICES, ...JSON.parse(override) };
+  } catch (error) {
+    console.warn('Invalid NEXT_PUBLIC_REALTIME_PRICES, using defaults:', error);
+    return DEFAULT_PRICES;
+  }
+}
+
+export type TokenCounts = Record<keyof PriceTable, number>;
+
+export interface UsageBucket {
+  responses: number;
+  tokens: number;
+  breakdown: TokenCounts;
+  cost: number; // Estimated USD
+}
+
+export interface UsageTotals {
+  total: UsageBucket;
+  byKind: Record<ResponseKind, UsageBucket>;
+  spentUsd: number; // Everything spent this session - survives resetUsage and drives the budget
+}
+
+const EMPTY_COUNTS: TokenCounts = {
+  textInput: 0,
+  cachedTextInput: 0,
+  audioInput: 0,
+  cachedAudioInput: 0,
+  imageInput: 0,
+  cachedImageInput: 0,
+  textOutput: 0,
+  audioOutput: 0,
+};
+
+const EMPTY_BUCKET: UsageBucket = { responses: 0, tokens: 0, breakdown: EMPTY_COUNTS, cost: 0 };
+
+export const EMPTY_USAGE: UsageTotals = {
+  total: EMPTY_BUCKET,
+  byKind: { voice: EMPTY_BUCKET, image: EMPTY_BUCKET, tool: EMPTY_BUCKET },
+  spentUsd: 0,
+};
+
+/**
+ * Clear the meter's counts but keep what was spent, so a reset can't lift a budget block
+ */
+export function resetUsageTotals(totals: UsageTotals): UsageTotals {
+  return { ...EMPTY_USAGE, spentUsd: totals.spentUsd };
+}
+
+/**
+ * Split a usage block into priced categories (cached tokens are part of the
+ * input counts, so they are moved out rather than added)
+ */
+export function tokenCountsFromUsage(usage: Usage): TokenCounts {
+  const input = usage.input_token_details ?? {};
+  const output = usage.output_token_details ?? {};
+  const cached = input.cached_tokens_details ?? {};
+
+  // Older payloads only report a cached total - attribute it to text
+  const cachedText = cached.text_tokens ?? (input.cached_tokens_details ? 0 : input.cached_tokens ?? 0);
+  const cachedAudio = cached.audio_tokens ?? 0;
+  const cachedImage = cached.image_tokens ?? 0;
+
+  return {
+    textInput: Math.max((input.text_tokens ?? 0) - cachedText, 0),
+    cachedTextInput: cachedText,
+    audioInput: Math.max((input.audio_tokens ?? 0) - cachedAudio, 0),
+    cachedAudioInput: cachedAudio,
+    imageInput: Math.max((input.image_tokens ?? 0) - cachedImage, 0),
+    cachedImageInput: cachedImage,
+    textOutput: output.text_tokens ?? 0,
+    audioOutput: output.audio_tokens ?? 0,
+  };
+}
+
+export function estimateCost(counts: TokenCounts, prices: PriceTable): number {
+  return (Object.keys(counts) as (keyof PriceTable)[]).reduce(
+    (sum, key) => sum + (counts[key] * prices[key]) / 1_000_000,
+    0
+  );
+}
+
+function addToBucket(bucket: UsageBucket, usage: Usage, prices: PriceTable): UsageBucket {
+  const counts = tokenCountsFromUsage(usage);
+  const breakdown = { ...bucket.breakdown };
+  (Object.keys(counts) as (keyof PriceTable)[]).forEach((key) => {
+    breakdown[key] += counts[key];
+  });
+
+  return {
+    responses: bucket.responses + 1,
+    tokens: bucket.tokens + usage.total_tokens,
+    breakdown,
+    cost: bucket.cost + estimateCost(counts, prices),
+  };
+}
+
+export function getResponseKind(response: Response): ResponseKind {
+  const kind = response.metadata?.kind;
+  return RESPONSE_KINDS.includes(kind as ResponseKind) ? (kind as ResponseKind) : 'voice';
+}
+
+/**
+ * Add a finished response's usage to the session totals
+ */
+export function addResponseUsage(
+  totals: UsageTotals,
+  response: Response,
+  prices: PriceTable
+): UsageTotals {
+  if (!response.usage) {
+    return totals;
+  }
+  const kind = getResponseKind(response);
+  const total = addToBucket(totals.total, response.usage, prices);
+  return {
+    total,
+    byKind: { ...totals.byKind, [kind]: addToBucket(totals.byKind[kind], response.usage, prices) },
+    spentUsd: totals.spentUsd + total.cost - totals.total.cost,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Budget
+// ---------------------------------------------------------------------------
+
+export interface UsageBudget {
+  limitUsd: number | null; // null = unlimited
+  warnRatio: number; // Warn once this fraction of the limit is spent
+}
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = {
+  limitUsd: Number(process.env.NEXT_PUBLIC_USAGE_BUDGET_USD) || null,
+  warnRatio: 0.8,
+};
+
+export function getBudgetStatus(cost: number, budget: UsageBudget): BudgetStatus {
+  if (budget.limitUsd === null) {
+    return 'ok';
+  }
+  if (cost >= budget.limitUsd) {
+    return 'exceeded';
+  }
+  return cost >= budget.limitUsd * budget.warnRatio ? 'warning' : 'ok';
+}
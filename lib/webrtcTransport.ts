@@ -0,0 +1,128 @@
+import type { RealtimeTransport, TransportCallbacks } from '@/lib/realtimeTransport';
+
+interface WebRtcTransportOptions extends TransportCallbacks {
+  // Exchange our SDP offer for the server's answer (proxy, direct or mock)
+  answerOffer: (offerSdp: string) => Promise<string>;
+}
+
+// The transceiver's sender has no track while the mic is off
+function findAudioSender(pc: RTCPeerConnection): RTCRtpSender | undefined {
+  return pc.getSenders().find((s) => s.track === null || s.track.kind === 'audio');
+}
+
+/**
+ * WebRTC transport: events over the oai-events DataChannel, mic audio as an
+ * RTP track, assistant audio as a remote track (see onRemoteStream)
+ */
+export function createWebRtcTransport({
+  answerOffer,
+  onOpen,
+  onMessage,
+  onClose,
+  onStateChange,
+  onRemoteStream,
+}: WebRtcTransportOptions): RealtimeTransport {
+  const peerConnection = new RTCPeerConnection({
+    iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
+  });
+  let channel: RTCDataChannel | null = null;
+  let closed = false;
+
+  const connect = async () => {
+    // Monitor connection state
+    peerConnection.onconnectionstatechange = () => {
+      if (closed) {
+        return;
+      }
+      onStateChange(peerConnection.connectionState);
+
+      if (peerConnection.connectionState === 'connected') {
+        console.log('WebRTC connection established');
+      } else if (peerConnection.connectionState === 'failed') {
+        console.error('WebRTC connection failed');
+        onClose('WebRTC connection failed');
+      }
+    };
+
+    // Handle incoming audio track
+    peerConnection.ontrack = (event) => {
+      const remoteStream = event.streams[0] ?? new MediaStream([event.track]);
+      console.log('Remote track received:', event.track.kind, remoteStream);
+      onRemoteStream?.(remoteStream);
+    };
+
+    // Add a transceiver for audio (required by OpenAI)
+    // This creates a placeholder that we'll use later with replaceTrack
+    const audioTransceiver = peerConnection.addTransceiver('audio', {
+      direction: 'sendrecv',
+    });
+    console.log('Audio transceiver added:', audioTransceiver);
+
+    // Create data channel for JSON events
+    channel = peerConnection.createDataChannel('oai-events', {
+      ordered: true,
+    });
+
+    channel.onopen = () => {
+      console.log('DataChannel opened');
+      onOpen();
+    };
+
+    channel.onclose = () => {
+      console.log('DataChannel closed');
+      if (!closed) {
+        onClose('DataChannel closed');
+      }
+    };
+
+    channel.onmessage = (event) => onMessage(event.data);
+
+    channel.onerror = (error) => {
+      console.error('DataChannel error:', error);
+    };
+
+    // Create SDP offer
+    const offer = await peerConnection.createOffer();
+    await peerConnection.setLocalDescription(offer);
+
+    const answerSDP = await answerOffer(offer.sdp!);
+    if (closed) {
+      return; // Closed while the SDP exchange was in flight
+    }
+    await peerConnection.setRemoteDescription({
+      type: 'answer',
+      sdp: answerSDP,
+    });
+
+    console.log('WebRTC connection initialized');
+  };
+
+  const setMicTrack = async (track: MediaStreamTrack | null) => {
+    // Always use replaceTrack since we created a transceiver during setup
+    const audioSender = findAudioSender(peerConnection);
+    if (!audioSender) {
+      throw new Error('No audio sender found');
+    }
+    console.log(track ? 'Replacing audio track (no renegotiation)' : 'Replacing audio track with null');
+    await audioSender.replaceTrack(track);
+  };
+
+  const close = () => {
+    closed = true;
+    if (channel?.readyState === 'open') {
+      channel.close();
+    }
+    if (peerConnection.connectionState !== 'closed') {
+      peerConnection.close();
+    }
+  };
+
+  return {
+    kind: 'webrtc',
+    connect,
+    send: (data) => channel?.send(data),
+    isOpen: () => channel?.readyState === 'open',
+    setMicTrack,
+    close,
+  };
+}
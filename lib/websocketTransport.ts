@@ -0,0 +1,235 @@
+import { toAppError } from '@/lib/realtimeConnection';
+import type { RealtimeTransport, TransportCallbacks } from '@/lib/realtimeTransport';
+
+export const CAPTURE_WORKLET_URL = '/worklets/pcm16-capture.js';
+
+// A relay that accepts the socket but never sends session.created
+const CONNECT_TIMEOUT_MS = 15000;
+
+// Close codes our relay uses to refuse a connection: 4000 + HTTP status
+const APP_CLOSE_CODE_BASE = 4000;
+
+export interface SocketHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onClose: (code: number, reason: string) => void;
+}
+
+// Minimal socket surface, so the in-page mock server can stand in for a WebSocket
+export interface RealtimeSocket {
+  send: (data: string) => void;
+  close: () => void;
+}
+
+export type OpenSocket = (handlers: SocketHandlers) => RealtimeSocket | Promise<RealtimeSocket>;
+
+/**
+ * Open a browser WebSocket (relay or OpenAI directly). Subprotocols carry
+ * credentials for the direct connection, since browsers can't set headers.
+ */
+export function openBrowserSocket(url: string, protocols?: string[]): OpenSocket {
+  return ({ onOpen, onMessage, onClose }) => {
+    const socket = new WebSocket(url, protocols);
+    socket.onopen = onOpen;
+    socket.onmessage = (event) => onMessage(event.data);
+    socket.onclose = (event) => onClose(event.code, event.reason);
+    socket.onerror = (error) => console.error('WebSocket error:', error);
+    return {
+      send: (data) => socket.send(data),
+      close: () => socket.close(),
+    };
+  };
+}
+
+// Relay refusals arrive as close code 4401/4429 with a JSON reason. Other 4xxx
+// codes (e.g. passed through from OpenAI) are not our auth or rate limits.
+function toCloseError(code: number, reason: string): Error {
+  if (code > APP_CLOSE_CODE_BASE && code < APP_CLOSE_CODE_BASE + 600) {
+    let body: { error?: string; retryAfterMs?: number } = {};
+    try {
+      body = JSON.parse(reason);
+    } catch {
+      // Plain-text reason
+    }
+    if (typeof body.error === 'string') {
+      return toAppError(code - APP_CLOSE_CODE_BASE, body.error, body.retryAfterMs ?? null);
+    }
+  }
+  return new Error(`WebSocket closed (${code}${reason ? `: ${reason}` : ''})`);
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+interface WebSocketTransportOptions extends TransportCallbacks {
+  openSocket: OpenSocket;
+}
+
+/**
+ * WebSocket transport: events as JSON frames, mic audio captured with an
+ * AudioWorklet and streamed as input_audio_buffer.append. There is no remote
+ * track - assistant audio arrives as response.audio.delta events.
+ */
+export function createWebSocketTransport({
+  openSocket,
+  onOpen,
+  onMessage,
+  onClose,
+  onStateChange,
+}: WebSocketTransportOptions): RealtimeTransport {
+  let socket: RealtimeSocket | null = null;
+  let isOpen = false;
+  let closed = false;
+
+  let captureContext: AudioContext | null = null;
+  let captureSource: MediaStreamAudioSourceNode | null = null;
+  let captureNode: AudioWorkletNode | null = null;
+  let workletReady: Promise<void> | null = null; // addModule for captureContext
+  let micGeneration = 0; // Only the latest setMicTrack call may start capturing
+
+  // Resolves on the first server event (session.created), so a relay that
+  // accepts the upgrade and then refuses us rejects connect() instead
+  const connect = () =>
+    new Promise<void>((resolve, reject) => {
+      let ready = false;
+      let timedOut = false;
+      onStateChange('connecting');
+
+      const timer = setTimeout(() => {
+        if (ready || closed) {
+          return;
+        }
+        console.warn('WebSocket connect timed out');
+        timedOut = true;
+        isOpen = false;
+        onStateChange('failed');
+        socket?.close();
+        reject(new Error(`No session.created within ${CONNECT_TIMEOUT_MS / 1000}s`));
+      }, CONNECT_TIMEOUT_MS);
+
+      Promise.resolve(
+        openSocket({
+          onOpen: () => console.log('WebSocket opened'),
+          onMessage: (data) => {
+            if (closed || timedOut) {
+              return;
+            }
+            if (!ready) {
+              ready = true;
+              clearTimeout(timer);
+              isOpen = true;
+              resolve();
+              onStateChange('connected');
+              onOpen();
+            }
+            onMessage(data);
+          },
+          onClose: (code, reason) => {
+            isOpen = false;
+            if (closed || timedOut) {
+              return;
+            }
+            console.log('WebSocket closed:', code, reason);
+            onStateChange('failed');
+            if (!ready) {
+              clearTimeout(timer);
+              reject(toCloseError(code, reason));
+            } else {
+              onClose(`WebSocket closed (${code})`);
+            }
+          },
+        })
+      ).then(
+        (opened) => {
+          socket = opened;
+          if (closed || timedOut) {
+            opened.close();
+          }
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+
+  const stopCapture = () => {
+    captureSource?.disconnect();
+    captureNode?.disconnect();
+    if (captureNode) {
+      captureNode.port.onmessage = null;
+    }
+    captureSource = null;
+    captureNode = null;
+  };
+
+  // Calls can overlap (a device swap while connecting): every call waits for
+  // the same worklet load, and only the latest one goes on to capture
+  const setMicTrack = async (track: MediaStreamTrack | null) => {
+    const generation = ++micGeneration;
+    stopCapture();
+    if (!track) {
+      return;
+    }
+
+    // Runs at the device rate; the worklet resamples to 24kHz
+    if (!captureContext || !workletReady) {
+      const created = new AudioContext();
+      captureContext = created;
+      workletReady = created.audioWorklet.addModule(CAPTURE_WORKLET_URL).catch((error) => {
+        // Let the next call start over with a fresh context
+        if (captureContext === created) {
+          captureContext = null;
+          workletReady = null;
+          created.close();
+        }
+        throw error;
+      });
+    }
+    const context = captureContext;
+    await workletReady;
+    await context.resume();
+    if (closed || generation !== micGeneration) {
+      return;
+    }
+    stopCapture();
+
+    const source = context.createMediaStreamSource(new MediaStream([track]));
+    const node = new AudioWorkletNode(context, 'pcm16-capture');
+    node.port.onmessage = (event: MessageEvent<ArrayBuffer>) => {
+      if (isOpen) {
+        socket?.send(JSON.stringify({ type: 'input_audio_buffer.append', audio: toBase64(event.data) }));
+      }
+    };
+    source.connect(node);
+    captureSource = source;
+    captureNode = node;
+    console.log('🎙️ Streaming mic audio over WebSocket');
+  };
+
+  const close = () => {
+    closed = true;
+    isOpen = false;
+    stopCapture();
+    captureContext?.close();
+    captureContext = null;
+    workletReady = null;
+    socket?.close();
+    socket = null;
+  };
+
+  return {
+    kind: 'websocket',
+    connect,
+    send: (data) => socket?.send(data),
+    isOpen: () => isOpen,
+    setMicTrack,
+    close,
+  };
+}
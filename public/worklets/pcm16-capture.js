@@ -0,0 +1,49 @@
+/**
+ * AudioWorklet that turns mic input into 24kHz mono PCM16 for the Realtime API.
+ * Resamples from the context rate (linear interpolation) and posts ~100ms
+ * chunks to the main thread as transferable ArrayBuffers.
+ */
+
+const TARGET_RATE = 24000;
+const CHUNK_SAMPLES = TARGET_RATE / 10;
+
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.ratio = sampleRate / TARGET_RATE;
+    this.position = 0; // Fractional read position into the current input block
+    this.previous = 0; // Last input sample, for interpolating across blocks
+    this.chunk = new Int16Array(CHUNK_SAMPLES);
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) {
+      return true;
+    }
+
+    while (this.position < input.length) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const before = index === 0 ? this.previous : input[index - 1];
+      const sample = before + (input[index] - before) * fraction;
+
+      const clamped = Math.max(-1, Math.min(1, sample));
+      this.chunk[this.length++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+      if (this.length === CHUNK_SAMPLES) {
+        this.port.postMessage(this.chunk.buffer, [this.chunk.buffer]);
+        this.chunk = new Int16Array(CHUNK_SAMPLES);
+        this.length = 0;
+      }
+
+      this.position += this.ratio;
+    }
+
+    this.position -= input.length;
+    this.previous = input[input.length - 1];
+    return true;
+  }
+}
+
+registerProcessor('pcm16-capture', Pcm16CaptureProcessor);
@@ -0,0 +1,102 @@
+/**
+ * AudioWorklet that plays streamed PCM16 from a ring buffer.
+ * Runs in a 24kHz context, so samples are played as-is. Playback starts once
+ * `prebufferMs` is queued (jitter buffer) and goes back to buffering after an
+ * underrun, unless the stream has ended. Messages in: push, end, flush.
+ * Messages out: played (sample count, throttled), drained, flushed.
+ */
+
+const INITIAL_SECONDS = 10;
+const REPORT_EVERY_BLOCKS = 8; // ~43ms at 24kHz
+
+class Pcm16PlayerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { prebufferMs = 100 } = options.processorOptions || {};
+    this.prebuffer = Math.round((sampleRate * prebufferMs) / 1000);
+    this.buffer = new Float32Array(sampleRate * INITIAL_SECONDS);
+    this.read = 0;
+    this.write = 0;
+    this.size = 0;
+    this.playing = false; // False while (re)filling the jitter buffer
+    this.ended = false; // No more audio coming: play out what is left
+    this.played = 0;
+    this.blocks = 0;
+    this.port.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  handleMessage(message) {
+    switch (message.type) {
+      case 'push':
+        this.enqueue(message.samples);
+        this.ended = false;
+        break;
+      case 'end':
+        this.ended = true;
+        break;
+      case 'flush':
+        this.read = 0;
+        this.write = 0;
+        this.size = 0;
+        this.playing = false;
+        this.ended = false;
+        this.port.postMessage({ type: 'flushed', played: this.played });
+        break;
+    }
+  }
+
+  // Grow instead of dropping audio: responses arrive faster than real time
+  grow(needed) {
+    const capacity = Math.max(this.buffer.length * 2, needed);
+    const next = new Float32Array(capacity);
+    for (let i = 0; i < this.size; i++) {
+      next[i] = this.buffer[(this.read + i) % this.buffer.length];
+    }
+    this.buffer = next;
+    this.read = 0;
+    this.write = this.size;
+  }
+
+  enqueue(samples) {
+    if (this.size + samples.length > this.buffer.length) {
+      this.grow(this.size + samples.length);
+    }
+    const capacity = this.buffer.length;
+    for (let i = 0; i < samples.length; i++) {
+      this.buffer[this.write] = samples[i] / 32768;
+      this.write = (this.write + 1) % capacity;
+    }
+    this.size += samples.length;
+  }
+
+  process(_inputs, outputs) {
+    const output = outputs[0][0];
+
+    if (!this.playing && this.size > 0 && (this.size >= this.prebuffer || this.ended)) {
+      this.playing = true;
+    }
+
+    if (this.playing) {
+      const count = Math.min(output.length, this.size);
+      const capacity = this.buffer.length;
+      for (let i = 0; i < count; i++) {
+        output[i] = this.buffer[this.read];
+        this.read = (this.read + 1) % capacity;
+      }
+      this.size -= count;
+      this.played += count;
+
+      if (this.size === 0) {
+        // Underrun mid-stream: rebuffer. After `end`: the response finished playing.
+        this.playing = false;
+        this.port.postMessage({ type: this.ended ? 'drained' : 'played', played: this.played });
+      } else if (++this.blocks % REPORT_EVERY_BLOCKS === 0) {
+        this.port.postMessage({ type: 'played', played: this.played });
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('pcm16-player', Pcm16PlayerProcessor);
@@ -0,0 +1,53 @@
+/**
+ * Custom Next.js server that adds the Realtime WebSocket relay at
+ * /api/realtime/ws (route handlers can't accept WebSocket upgrades).
+ * Only needed for NEXT_PUBLIC_REALTIME_TRANSPORT=websocket with proxy mode:
+ *   npm run dev:ws    /    npm run build && npm run start:ws
+ */
+
+import { createServer } from 'node:http';
+import next from 'next';
+import type { IncomingMessage } from 'node:http';
+import { handleRelayUpgrade } from '@/lib/realtimeRelay';
+import { REALTIME_RELAY_PATH } from '@/lib/realtimeConnection';
+import { CLIENT_IP_FROM_SERVER_ENV, CLIENT_IP_HEADER } from '@/lib/apiGuard';
+
+const port = Number(process.env.PORT) || 3000;
+// `--prod` instead of NODE_ENV=production in the npm script, which Windows shells can't parse
+const dev = !process.argv.includes('--prod') && process.env.NODE_ENV !== 'production';
+if (!dev) {
+  Object.assign(process.env, { NODE_ENV: 'production' }); // What `next start` sets
+}
+
+// Give the API guard the socket address as a rate limit key (set before Next
+// starts so its workers inherit it)
+process.env[CLIENT_IP_FROM_SERVER_ENV] = '1';
+const stampClientIp = (request: IncomingMessage) => {
+  request.headers[CLIENT_IP_HEADER] = request.socket.remoteAddress ?? '';
+};
+
+const app = next({ dev, port });
+
+app.prepare().then(() => {
+  const handleRequest = app.getRequestHandler();
+  const handleUpgrade = app.getUpgradeHandler(); // Dev server HMR
+
+  const server = createServer((request, response) => {
+    stampClientIp(request);
+    handleRequest(request, response);
+  });
+
+  server.on('upgrade', (request, socket, head) => {
+    stampClientIp(request);
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    if (pathname === REALTIME_RELAY_PATH) {
+      handleRelayUpgrade(request, socket, head);
+    } else {
+      handleUpgrade(request, socket, head);
+    }
+  });
+
+  server.listen(port, () => {
+    console.log(`> Ready on http://localhost:${port} (WebSocket relay at ${REALTIME_RELAY_PATH})`);
+  });
+});
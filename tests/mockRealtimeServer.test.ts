@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockRealtimeServer } from '@/lib/mock/mockRealtimeServer';
+import { parseServerEvent, type ClientEvent, type ServerEvent, type ServerEventOf } from '@/lib/realtimeEvents';
+
+const WAIT_TIMEOUT_MS = 5000;
+
+// A mock server whose events are checked against the app's own parser
+function startServer() {
+  const events: ServerEvent[] = [];
+  const waiters = new Set<() => void>();
+  const server = createMockRealtimeServer((event) => {
+    events.push(parseServerEvent(JSON.stringify(event)));
+    waiters.forEach((check) => check());
+  });
+
+  const waitFor = <T extends ServerEvent['type']>(type: T): Promise<ServerEventOf<T>> =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        waiters.delete(check);
+        reject(new Error(`No ${type} within ${WAIT_TIMEOUT_MS}ms`));
+      }, WAIT_TIMEOUT_MS);
+      const check = () => {
+        const match = events.find((event) => event.type === type);
+        if (match) {
+          clearTimeout(timer);
+          waiters.delete(check);
+          resolve(match as ServerEventOf<T>);
+        }
+      };
+      waiters.add(check);
+      check();
+    });
+
+  const send = (event: ClientEvent) => server.handleClientEvent(event);
+  const say = (text: string) =>
+    send({
+      type: 'conversation.item.create',
+      item: { type: 'message', role: 'user', content: [{ type: 'input_text', text }] },
+    });
+
+  server.start();
+  return { server, events, waitFor, send, say };
+}
+
+test('starts with session.created and confirms session.update', async () => {
+  const { server, waitFor, send } = startServer();
+  try {
+    await waitFor('session.created');
+    send({ type: 'session.update', session: { voice: 'echo' } });
+    const updated = await waitFor('session.updated');
+    assert.equal(updated.session.voice, 'echo');
+  } finally {
+    server.close();
+  }
+});
+
+test('streams a text reply and echoes response metadata', async () => {
+  const { server, events, waitFor, send, say } = startServer();
+  try {
+    send({ type: 'session.update', session: { modalities: ['text'] } });
+    say('hello there');
+    send({ type: 'response.create', response: { metadata: { kind: 'image' } } });
+
+    const created = await waitFor('response.created');
+    assert.deepEqual(created.response.metadata, { kind: 'image' });
+
+    const done = await waitFor('response.done');
+    assert.equal(done.response.status, 'completed');
+    assert.deepEqual(done.response.metadata, { kind: 'image' });
+    assert.ok(done.response.usage && done.response.usage.total_tokens > 0);
+
+    const text = events
+      .filter((event): event is ServerEventOf<'response.text.delta'> => event.type === 'response.text.delta')
+      .map((event) => event.delta)
+      .join('');
+    assert.equal(text, 'Mock reply to "hello there".');
+  } finally {
+    server.close();
+  }
+});
+
+test('calls a registered tool named in the request', async () => {
+  const { server, waitFor, send, say } = startServer();
+  try {
+    send({
+      type: 'session.update',
+      session: {
+        tools: [{ type: 'function', name: 'refresh_image', description: 'New photo', parameters: {} }],
+      },
+    });
+    say('please refresh the image');
+    send({ type: 'response.create' });
+
+    const call = await waitFor('response.function_call_arguments.done');
+    assert.equal(call.name, 'refresh_image');
+  } finally {
+    server.close();
+  }
+});
+
+test('cancels the active response', async () => {
+  const { server, waitFor, send, say } = startServer();
+  try {
+    say('tell me a long story');
+    send({ type: 'response.create' });
+    const created = await waitFor('response.created');
+    send({ type: 'response.cancel', response_id: created.response.id });
+
+    const done = await waitFor('response.done');
+    assert.equal(done.response.status, 'cancelled');
+  } finally {
+    server.close();
+  }
+});
+
+test('reports an error when committing an empty audio buffer', async () => {
+  const { server, waitFor, send } = startServer();
+  try {
+    send({ type: 'input_audio_buffer.commit' });
+    const error = await waitFor('error');
+    assert.equal(error.error.code, 'input_audio_buffer_commit_empty');
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseServerEvent } from '@/lib/realtimeEvents';
+
+test('parses a well-formed server event', () => {
+  const event = parseServerEvent(
+    JSON.stringify({ type: 'response.text.delta', response_id: 'r', item_id: 'i', output_index: 0, content_index: 0, delta: 'hi' })
+  );
+  assert.equal(event.type, 'response.text.delta');
+});
+
+test('rejects a known event missing a required field', () => {
+  assert.throws(
+    () => parseServerEvent(JSON.stringify({ type: 'response.text.delta', response_id: 'r' })),
+    /Malformed server event/
+  );
+});
+
+test('passes unknown event types through', () => {
+  const event = parseServerEvent(JSON.stringify({ type: 'response.future_feature', value: 1 }));
+  assert.equal(event.type as string, 'response.future_feature');
+});
+
+test('rejects frames without a type or that are not JSON', () => {
+  assert.throws(() => parseServerEvent(JSON.stringify({ delta: 'hi' })), /no type/);
+  assert.throws(() => parseServerEvent('not json'), SyntaxError);
+});
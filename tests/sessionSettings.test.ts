@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sessionMatchesPatch } from '@/lib/sessionSettings';
+import type { SessionConfig } from '@/lib/realtimeEvents';
+
+const tool = (name: string) => ({
+  type: 'function' as const,
+  name,
+  description: `${name} tool`,
+  parameters: { type: 'object', properties: {} },
+});
+
+test('ignores fields the server adds', () => {
+  const session = { voice: 'alloy', temperature: 0.8, id: 'sess_1' } as SessionConfig;
+  assert.ok(sessionMatchesPatch({ voice: 'alloy' }, session));
+});
+
+test('compares numbers loosely and other leaves exactly', () => {
+  assert.ok(sessionMatchesPatch({ temperature: 0.7 }, { temperature: 0.7000000001 }));
+  assert.ok(!sessionMatchesPatch({ voice: 'alloy' }, { voice: 'echo' }));
+});
+
+test('matches modalities in any order', () => {
+  assert.ok(sessionMatchesPatch({ modalities: ['text', 'audio'] }, { modalities: ['audio', 'text'] }));
+  assert.ok(!sessionMatchesPatch({ modalities: ['text', 'audio'] }, { modalities: ['text'] }));
+});
+
+test('matches tools by type and name, whatever the server does to their schemas', () => {
+  const normalized = { ...tool('refresh_image'), parameters: { properties: {}, type: 'object', required: [] } };
+  assert.ok(
+    sessionMatchesPatch(
+      { tools: [tool('capture_screen'), tool('refresh_image')] },
+      { tools: [normalized, tool('capture_screen')] } as SessionConfig
+    )
+  );
+  assert.ok(!sessionMatchesPatch({ tools: [tool('refresh_image')] }, { tools: [tool('capture_screen')] }));
+});
+
+test('recurses into other arrays element by element, ignoring extras', () => {
+  const patch = { stops: [{ at: 1 }, { at: 2 }] } as unknown as SessionConfig;
+  const withExtras = { stops: [{ at: 1, id: 'a' }, { at: 2, id: 'b' }] } as unknown as SessionConfig;
+  const reordered = { stops: [{ at: 2 }, { at: 1 }] } as unknown as SessionConfig;
+  assert.ok(sessionMatchesPatch(patch, withExtras));
+  assert.ok(!sessionMatchesPatch(patch, reordered));
+});